@@ -1,78 +1,491 @@
-import React, { useState, useRef } from 'react';
-import { AnalysisResult, ProcessingState } from './types';
-import { analyzeImage, generateMoreQuestions } from './services/geminiService';
+import React, { useEffect, useState, useRef } from 'react';
+import { AnalysisResult, AudienceProfile, ChatMessage, ExplanationHistory, ExplanationSection, ImageOutputSettings, LibraryEntry, PartialAnalysis, ProcessingState, QuizAnswer, QuizQuestion, QuizSettings, RewriteStyle } from './types';
+import { analyzeImage, generateMoreQuestions, askAiTutor, rewriteSection } from './services/geminiService';
+import { saveAnalysis, replaceAnalysis, addQuiz, recordAttempt, saveChat, saveExplanation } from './services/libraryService';
+import { CancelledError, ModelServiceError } from './services/errors';
+import { withRetry } from './services/retry';
+import { RATE_LIMIT_WINDOW_MS } from './services/apiProtocol';
+import { DEFAULT_AUDIENCE_PROFILE, describeProfile, loadAudienceProfile, saveAudienceProfile } from './services/audienceProfile';
+import { extractTopics } from './services/quizSettings';
+import { mergeIntoBank, sampleFromBank } from './services/questionBank';
+import { scrollToTerm, termKey } from './services/hotspots';
+import { addSectionVersion, currentExplanation, selectSectionVersion } from './services/explanation';
+import { isPdf } from './services/pdfService';
+import { loadOutputSettings, saveOutputSettings } from './services/imageUtils';
+import { imageFromClipboard } from './services/imageImport';
 import ExplanationView from './components/ExplanationView';
-import QuizView from './components/QuizView';
+import QuizView, { QuizGenerationError } from './components/QuizView';
+import { SectionRewriteState } from './components/SectionControls';
+import LibraryView from './components/LibraryView';
+import ErrorView from './components/ErrorView';
+import HotspotOverlay from './components/HotspotOverlay';
+import StepOverlay from './components/StepOverlay';
+import LabelExercise from './components/LabelExercise';
+import PdfPagePicker from './components/PdfPagePicker';
+import ImageEditor from './components/ImageEditor';
+import CameraCapture from './components/CameraCapture';
+import UrlImportForm from './components/UrlImportForm';
+import QuizExportMenu from './components/QuizExportMenu';
+import WorksheetDialog from './components/WorksheetDialog';
+import AudienceProfileSelector from './components/AudienceProfileSelector';
 
 const App: React.FC = () => {
   const [image, setImage] = useState<string | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  // Analysis output received so far while the model is still streaming
+  const [partialResult, setPartialResult] = useState<PartialAnalysis | null>(null);
   const [processingState, setProcessingState] = useState<ProcessingState>({ status: 'idle' });
+  // When the server answered from its cache instead of asking the model
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Who new analyses are written for; remembered on this device
+  const [profile, setProfile] = useState<AudienceProfile>(loadAudienceProfile);
+  // How uploads are scaled and compressed; also remembered on this device
+  const [outputSettings, setOutputSettings] = useState<ImageOutputSettings>(loadOutputSettings);
   const [isGeneratingMore, setIsGeneratingMore] = useState(false);
+  const [quizError, setQuizError] = useState<QuizGenerationError | null>(null);
+  // Library entry backing the current result, and which of its quizzes is on screen
+  const [entryId, setEntryId] = useState<string | null>(null);
+  const [quizIndex, setQuizIndex] = useState(0);
+  // Every distinct question this diagram has produced, for exclusions and sampled quizzes
+  const [bank, setBank] = useState<QuizQuestion[]>([]);
+  // Term highlighted in both the image hotspots and the explanation (see services/hotspots.ts)
+  const [activeTerm, setActiveTerm] = useState<string | null>(null);
+  const [practiceMode, setPracticeMode] = useState<'quiz' | 'labels'>('quiz');
+  // An upload waiting in the image editor or the PDF page picker, before any analysis
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  // Further PDF pages being analyzed in the background
+  const [batchProgress, setBatchProgress] = useState<{ done: number; failed: number; total: number } | null>(null);
+
+  // Tutor conversation, kept with the diagram rather than inside QuizView
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isChatLoading, setIsChatLoading] = useState(false);
+
+  // Rewritten explanation sections; result.explanation always shows the current versions
+  const [explanationHistory, setExplanationHistory] = useState<ExplanationHistory>({});
+  const [rewritingSection, setRewritingSection] = useState<ExplanationSection | null>(null);
+  const [rewriteError, setRewriteError] = useState<SectionRewriteState['error']>(null);
+  // The relationship step highlighted on the diagram, or null outside walkthrough mode
+  const [walkthroughStep, setWalkthroughStep] = useState<number | null>(null);
   
   // Use a ref for the file input to easily trigger it programmatically
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const processFile = async (file: File) => {
+  // A screenshot pasted anywhere on the page starts a new diagram. The listener
+  // is added once and reaches the current processFile through a ref.
+  const processFileRef = useRef<(file: File) => void>(() => {});
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = imageFromClipboard(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      processFileRef.current(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  // The latest request of each kind. A response whose controller is no longer
+  // current belongs to a diagram the user has moved on from and is dropped.
+  const analysisRequestRef = useRef<AbortController | null>(null);
+  const quizRequestRef = useRef<AbortController | null>(null);
+  const tutorRequestRef = useRef<AbortController | null>(null);
+  const rewriteRequestRef = useRef<AbortController | null>(null);
+  // Background analyses of further PDF pages; they outlive the diagram on screen
+  const batchRequestRef = useRef<AbortController | null>(null);
+
+  const abortPendingRequests = () => {
+    [analysisRequestRef, quizRequestRef, tutorRequestRef, rewriteRequestRef].forEach(ref => {
+      ref.current?.abort();
+      ref.current = null;
+    });
+    setIsGeneratingMore(false);
+    setQuizError(null);
+    setIsChatLoading(false);
+    setRewritingSection(null);
+    setRewriteError(null);
+  };
+
+  // Clears the previous diagram and returns the controller for analyzing a new one
+  const beginAnalysis = () => {
+    abortPendingRequests();
+    const controller = new AbortController();
+    analysisRequestRef.current = controller;
+
     // Reset previous state
     setImage(null);
     setResult(null);
+    setPartialResult(null);
+    setCachedAt(null);
+    setEntryId(null);
+    setBank([]);
+    setChatMessages([]);
+    setExplanationHistory({});
+    setWalkthroughStep(null);
     setProcessingState({ status: 'analyzing' });
+    return controller;
+  };
 
+  // Uploads go through the image editor or, for PDFs, the page picker before they are analyzed
+  const processFile = (file: File) => {
     // Validate type roughly
-    if (!file.type.startsWith('image/')) {
-      setProcessingState({ status: 'error', error: 'Please upload a valid image file.' });
+    if (!isPdf(file) && !file.type.startsWith('image/')) {
+      beginAnalysis();
+      setProcessingState({ status: 'error', error: 'Please upload an image or a PDF.' });
       return;
     }
 
-    try {
-      const base64Data = await readFileAsBase64(file);
-      setImage(base64Data);
+    handleReset();
+    if (isPdf(file)) {
+      setPdfFile(file);
+    } else {
+      setImageFile(file);
+    }
+  };
+  processFileRef.current = processFile;
+
+  const analyzeNewImage = (dataUrl: string) => {
+    const controller = beginAnalysis();
+    setImage(dataUrl);
+    runAnalysis(dataUrl, controller, profile);
+  };
+
+  const handleEditedImage = (dataUrl: string) => {
+    setImageFile(null);
+    analyzeNewImage(dataUrl);
+  };
+
+  /**
+   * Analyzes the first chosen PDF page or region on screen, and the rest one
+   * after another in the background, each saved as its own library entry.
+   */
+  const handlePdfSelections = (images: string[]) => {
+    setPdfFile(null);
+    const [first, ...rest] = images;
+    analyzeNewImage(first);
+    if (rest.length > 0) runBatch(rest, profile);
+  };
+
+  const runBatch = async (images: string[], batchProfile: AudienceProfile) => {
+    batchRequestRef.current?.abort();
+    const controller = new AbortController();
+    batchRequestRef.current = controller;
+    const progress = { done: 0, failed: 0, total: images.length };
+    setBatchProgress({ ...progress });
+
+    for (const dataUrl of images) {
+      if (controller.signal.aborted) return;
+      try {
+        const rawBase64 = dataUrl.split(',')[1];
+        const mimeType = dataUrl.match(/data:([^;]+);/)?.[1] || 'image/png';
+        // The server rate-limits analyses, so a quota error waits until it says the next one is
+        // allowed (a full window if it didn't say); other failures back off as usual
+        const { result: analysisData } = await withRetry(
+          () => analyzeImage(rawBase64, mimeType, batchProfile, { signal: controller.signal }),
+          { signal: controller.signal, retries: 2, quotaDelayMs: RATE_LIMIT_WINDOW_MS }
+        );
+        await saveAnalysis(dataUrl, analysisData);
+        progress.done++;
+      } catch (err) {
+        if (err instanceof CancelledError) return;
+        console.error("Failed to analyze PDF page", err);
+        progress.failed++;
+      }
+      if (batchRequestRef.current === controller) setBatchProgress({ ...progress });
+    }
+  };
 
+  const handleStopBatch = () => {
+    batchRequestRef.current?.abort();
+    batchRequestRef.current = null;
+    setBatchProgress(null);
+  };
+
+  const handleCancelUpload = () => {
+    setImageFile(null);
+    setPdfFile(null);
+    setIsCameraOpen(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // Asks the model again, bypassing the server's cache, and updates the library entry in place
+  const handleReanalyze = () => {
+    if (!image || !result) return;
+    // Keep the profile the analysis was written for, even if the selector has changed since
+    const analysisProfile = result.profile ?? DEFAULT_AUDIENCE_PROFILE;
+    abortPendingRequests();
+    const controller = new AbortController();
+    analysisRequestRef.current = controller;
+
+    setResult(null);
+    setPartialResult(null);
+    setCachedAt(null);
+    setExplanationHistory({});
+    setWalkthroughStep(null);
+    setProcessingState({ status: 'analyzing' });
+    runAnalysis(image, controller, analysisProfile, true);
+  };
+
+  /**
+   * Analyzes an image data URL and shows the result. A `refresh` skips the
+   * server's cache and replaces the analysis of the current library entry.
+   */
+  const runAnalysis = async (base64Data: string, controller: AbortController, analysisProfile: AudienceProfile, refresh = false) => {
+    const isCurrent = () => analysisRequestRef.current === controller;
+
+    try {
       // Extract raw base64 string without data prefix
       const rawBase64 = base64Data.split(',')[1];
-      const mimeType = file.type;
+      const mimeType = base64Data.match(/data:([^;]+);/)?.[1] || 'image/png';
 
-      // Call Gemini API
-      const analysisData = await analyzeImage(rawBase64, mimeType);
+      // Call the API, rendering the explanation as it streams in
+      const { result: analysisData, cachedAt } = await analyzeImage(rawBase64, mimeType, analysisProfile, {
+        signal: controller.signal,
+        onPartial: partial => isCurrent() && setPartialResult(partial),
+        refresh,
+      });
+      if (!isCurrent()) return;
       setResult(analysisData);
+      setPartialResult(null);
+      setCachedAt(cachedAt ?? null);
+      setQuizIndex(0);
+      setBank(prev => mergeIntoBank(refresh ? prev : [], analysisData.quiz).bank);
       setProcessingState({ status: 'complete' });
 
+      // Saving is best-effort: a full or unavailable IndexedDB shouldn't hide the result
+      const saved = refresh && entryId ? replaceAnalysis(entryId, analysisData) : saveAnalysis(base64Data, analysisData);
+      saved
+        .then(entry => {
+          if (!isCurrent()) return;
+          setEntryId(entry.id);
+          setQuizIndex(entry.quizzes.length - 1);
+          setBank(entry.bank);
+        })
+        .catch(error => console.error("Failed to save analysis to library", error));
+
     } catch (err: any) {
+      // Cancelled or superseded: whoever aborted has already set the next state
+      if (!isCurrent() || err instanceof CancelledError) return;
+      setPartialResult(null);
       setProcessingState({ 
         status: 'error', 
-        error: err.message || 'An unexpected error occurred while processing the image.' 
+        error: err.message || 'An unexpected error occurred while processing the image.',
+        errorKind: err instanceof ModelServiceError ? err.kind : undefined
       });
     }
   };
 
-  const handleGenerateMoreQuestions = async () => {
+  const handleGenerateMoreQuestions = async (settings: QuizSettings) => {
     if (!image || !result) return;
+
+    quizRequestRef.current?.abort();
+    const controller = new AbortController();
+    quizRequestRef.current = controller;
+    const isCurrent = () => quizRequestRef.current === controller;
     
     setIsGeneratingMore(true);
+    setQuizError(null);
     try {
       const rawBase64 = image.split(',')[1];
       const mimeType = image.match(/data:([^;]+);/)?.[1] || 'image/png';
       
-      const newQuestions = await generateMoreQuestions(rawBase64, mimeType);
-      
-      setResult({
-        ...result,
-        quiz: newQuestions
-      });
+      // Everything already in the bank is excluded, so the new questions really are new
+      const seen = bank.map(q => q.question);
+
+      // Analyses saved before profiles existed were written with the default one
+      const analysisProfile = result.profile ?? DEFAULT_AUDIENCE_PROFILE;
+      const newQuestions = await generateMoreQuestions(rawBase64, mimeType, analysisProfile, settings, { signal: controller.signal, seen });
+      if (!isCurrent()) return;
+      showNewQuiz(newQuestions, isCurrent);
     } catch (error) {
+      if (!isCurrent() || error instanceof CancelledError) return;
       console.error("Failed to generate more questions", error);
-      // Optional: Add a toast notification here
+      setQuizError(
+        error instanceof ModelServiceError
+          ? { message: error.message, kind: error.kind }
+          : { message: "Couldn't generate new questions.", kind: 'unknown' }
+      );
     } finally {
-      setIsGeneratingMore(false);
+      if (isCurrent()) setIsGeneratingMore(false);
     }
   };
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Puts a quiz on screen, adds its questions to the bank and records it in the library
+  const showNewQuiz = (quiz: QuizQuestion[], isCurrent = () => true) => {
+    // Functional update: a section may have been rewritten while the questions were generated
+    setResult(prev => prev && { ...prev, quiz });
+    setQuizError(null);
+    setBank(prev => mergeIntoBank(prev, quiz).bank);
+
+    if (entryId) {
+      addQuiz(entryId, quiz)
+        .then(entry => isCurrent() && setQuizIndex(entry.quizzes.length - 1))
+        .catch(error => console.error("Failed to save new quiz to library", error));
+    }
+  };
+
+  const handleSampleFromBank = (settings: QuizSettings) => {
+    const quiz = sampleFromBank(bank, settings);
+    if (quiz.length > 0) showNewQuiz(quiz);
+  };
+
+  const handleImportQuestions = (questions: QuizQuestion[]) => {
+    showNewQuiz(questions);
+    setPracticeMode('quiz');
+  };
+
+  const handleAskTutor = async (question: string, currentQuestion?: QuizQuestion, selectedAnswer?: QuizAnswer | null) => {
+    if (!image || !result || isChatLoading) return;
+
+    const controller = new AbortController();
+    tutorRequestRef.current = controller;
+    // Stopping the reply keeps the controller current; switching diagrams does not
+    const isCurrent = () => tutorRequestRef.current === controller;
+
+    const history = chatMessages;
+    const userMsg: ChatMessage = { id: Date.now().toString(), sender: 'user', text: question };
+    setChatMessages([...history, userMsg]);
+    setIsChatLoading(true);
+
+    // The reply bubble appears with the first streamed token and grows in place
+    const replyId = (Date.now() + 1).toString();
+    let partialText = '';
+    const showPartialReply = (textSoFar: string) => {
+      if (!isCurrent()) return;
+      partialText = textSoFar;
+      setChatMessages([...history, userMsg, { id: replyId, sender: 'ai', text: textSoFar }]);
+    };
+
+    let reply: ChatMessage | null;
+    try {
+      const rawBase64 = image.split(',')[1];
+      const mimeType = image.match(/data:([^;]+);/)?.[1] || 'image/png';
+
+      const responseText = await askAiTutor(rawBase64, mimeType, {
+        question,
+        history,
+        analysis: result,
+        currentQuestion,
+        selectedAnswer,
+        profile: result.profile,
+      }, { signal: controller.signal, onText: showPartialReply });
+      reply = { id: replyId, sender: 'ai', text: responseText };
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        // Keep whatever the tutor had said before being stopped
+        reply = partialText ? { id: replyId, sender: 'ai', text: partialText } : null;
+      } else {
+        const reason = error instanceof ModelServiceError && error.kind !== 'unknown' ? ` ${error.message}` : '';
+        reply = { id: replyId, sender: 'ai', text: `Sorry, I couldn't answer that right now.${reason}`, isError: true };
+      }
+    } finally {
+      if (isCurrent()) setIsChatLoading(false);
+    }
+    if (!isCurrent()) return;
+    tutorRequestRef.current = null;
+
+    const updated = reply ? [...history, userMsg, reply] : [...history, userMsg];
+    setChatMessages(updated);
+    if (entryId) {
+      saveChat(entryId, updated).catch(error => console.error("Failed to save tutor chat", error));
+    }
+  };
+
+  // Shows the current version of each section and stores every version with the library entry
+  const showExplanationVersions = (history: ExplanationHistory) => {
+    if (!result) return;
+    const explanation = currentExplanation(result.explanation, history);
+    // Functional update: a new quiz may have arrived while the section was being rewritten
+    setResult(prev => prev && { ...prev, explanation });
+    setExplanationHistory(history);
+    if (entryId) {
+      saveExplanation(entryId, explanation, history).catch(error => console.error("Failed to save explanation versions", error));
+    }
+  };
+
+  const handleRewriteSection = async (section: ExplanationSection, style: RewriteStyle) => {
+    if (!image || !result || rewritingSection) return;
+
+    const controller = new AbortController();
+    rewriteRequestRef.current = controller;
+    const isCurrent = () => rewriteRequestRef.current === controller;
+
+    setRewritingSection(section);
+    setRewriteError(null);
+    try {
+      const rawBase64 = image.split(',')[1];
+      const mimeType = image.match(/data:([^;]+);/)?.[1] || 'image/png';
+
+      const value = await rewriteSection(rawBase64, mimeType, {
+        section,
+        style,
+        title: result.title,
+        explanation: result.explanation,
+        profile: result.profile ?? DEFAULT_AUDIENCE_PROFILE,
+      }, { signal: controller.signal });
+      if (!isCurrent()) return;
+      // Versions can't be switched while a rewrite is pending, so the history read here is still current
+      showExplanationVersions(addSectionVersion(explanationHistory, result.explanation, section, style, value));
+    } catch (error) {
+      if (!isCurrent() || error instanceof CancelledError) return;
+      console.error("Failed to rewrite explanation section", error);
+      const reason = error instanceof ModelServiceError && error.kind !== 'unknown' ? ` ${error.message}` : '';
+      setRewriteError({ section, message: `Couldn't rewrite this section.${reason}` });
+    } finally {
+      if (isCurrent()) {
+        rewriteRequestRef.current = null;
+        setRewritingSection(null);
+      }
+    }
+  };
+
+  const handleSelectVersion = (section: ExplanationSection, index: number) => {
+    setRewriteError(null);
+    showExplanationVersions(selectSectionVersion(explanationHistory, section, index));
+  };
+
+  const handleProfileChange = (next: AudienceProfile) => {
+    setProfile(next);
+    saveAudienceProfile(next);
+  };
+
+  const handleOutputChange = (next: ImageOutputSettings) => {
+    setOutputSettings(next);
+    saveOutputSettings(next);
+  };
+
+  const handleStopTutor = () => {
+    tutorRequestRef.current?.abort();
+  };
+
+  const handleQuizComplete = (answers: (QuizAnswer | null)[], score: number) => {
+    if (!entryId) return;
+    recordAttempt(entryId, { quizIndex, answers, score, total: answers.length })
+      .catch(error => console.error("Failed to record quiz attempt", error));
+  };
+
+  const handleOpenEntry = (entry: LibraryEntry) => {
+    abortPendingRequests();
+    setImage(entry.image);
+    setResult(entry.result);
+    setCachedAt(null);
+    setEntryId(entry.id);
+    setQuizIndex(entry.quizzes.length - 1);
+    setBank(entry.bank);
+    setChatMessages(entry.chat);
+    setExplanationHistory(entry.explanationHistory);
+    setWalkthroughStep(null);
+    setProcessingState({ status: 'complete' });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
-    await processFile(file);
+    processFile(file);
   };
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -86,28 +499,30 @@ const App: React.FC = () => {
     setIsDragging(false);
   };
 
-  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
     
     const file = e.dataTransfer.files?.[0];
     if (file) {
-      await processFile(file);
+      processFile(file);
     }
   };
 
-  const readFileAsBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   const handleReset = () => {
+    abortPendingRequests();
     setImage(null);
     setResult(null);
+    setPartialResult(null);
+    setCachedAt(null);
+    setEntryId(null);
+    setBank([]);
+    setChatMessages([]);
+    setExplanationHistory({});
+    setWalkthroughStep(null);
+    setImageFile(null);
+    setPdfFile(null);
+    setIsCameraOpen(false);
     setProcessingState({ status: 'idle' });
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -118,6 +533,12 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   };
 
+  // Switch from the spinner to the results layout as soon as the title streams in
+  const isStreaming = processingState.status === 'analyzing' && !!partialResult?.title;
+  // Labelling needs at least a couple of blanks to be worth doing
+  const canLabel = (result?.labels?.length ?? 0) >= 2;
+  const displayResult: PartialAnalysis | null = processingState.status === 'complete' ? result : isStreaming ? partialResult : null;
+
   return (
     <div className="min-h-screen bg-[#020617] text-slate-100 flex flex-col font-sans overflow-x-hidden">
       {/* Header */}
@@ -154,8 +575,52 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className="flex-grow flex flex-col items-center justify-start p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto w-full">
         
+        {/* Further PDF pages being analyzed into the library */}
+        {batchProgress && (
+          <div className="w-full mb-4 flex items-center justify-between gap-3 bg-indigo-950/60 border border-indigo-800 rounded-lg px-4 py-2 text-sm text-indigo-200" role="status">
+            {batchProgress.done + batchProgress.failed < batchProgress.total ? (
+              <span className="flex items-center gap-2">
+                <span className="w-3.5 h-3.5 border-2 border-amber-500 border-t-transparent rounded-full animate-spin flex-shrink-0"></span>
+                Analyzing more PDF pages: {batchProgress.done + batchProgress.failed + 1} of {batchProgress.total}
+              </span>
+            ) : (
+              <span>
+                {batchProgress.done} more {batchProgress.done === 1 ? 'page' : 'pages'} saved to your study library
+                {batchProgress.failed > 0 && <span className="text-red-300"> ({batchProgress.failed} failed)</span>}
+              </span>
+            )}
+            <button
+              onClick={handleStopBatch}
+              className="px-2 py-0.5 rounded-md font-medium text-amber-400 hover:text-amber-300 hover:bg-indigo-950/70 transition-colors flex-shrink-0"
+            >
+              {batchProgress.done + batchProgress.failed < batchProgress.total ? 'Stop' : 'Dismiss'}
+            </button>
+          </div>
+        )}
+
+        {/* State: IDLE - PDF page picker */}
+        {processingState.status === 'idle' && pdfFile && (
+          <PdfPagePicker file={pdfFile} output={outputSettings} onCancel={handleCancelUpload} onConfirm={handlePdfSelections} />
+        )}
+
+        {/* State: IDLE - Image editor */}
+        {processingState.status === 'idle' && imageFile && (
+          <ImageEditor
+            file={imageFile}
+            output={outputSettings}
+            onOutputChange={handleOutputChange}
+            onCancel={handleCancelUpload}
+            onConfirm={handleEditedImage}
+          />
+        )}
+
+        {/* State: IDLE - Camera */}
+        {processingState.status === 'idle' && isCameraOpen && (
+          <CameraCapture onCapture={processFile} onCancel={handleCancelUpload} />
+        )}
+
         {/* State: IDLE - Upload Area */}
-        {processingState.status === 'idle' && (
+        {processingState.status === 'idle' && !pdfFile && !imageFile && !isCameraOpen && (
           <div className="flex flex-col items-center justify-center w-full max-w-3xl mt-8 sm:mt-16 animate-in fade-in zoom-in duration-500">
             <div className="text-center mb-8 sm:mb-12">
               <h2 className="text-3xl sm:text-5xl font-extrabold text-white mb-4 sm:mb-6 tracking-tight leading-tight">
@@ -166,6 +631,8 @@ const App: React.FC = () => {
               </p>
             </div>
 
+            <AudienceProfileSelector profile={profile} onChange={handleProfileChange} />
+
             <div 
               onClick={triggerUpload}
               onDragOver={handleDragOver}
@@ -189,20 +656,40 @@ const App: React.FC = () => {
               <p className={`text-lg sm:text-xl font-semibold transition-colors ${isDragging ? "text-amber-300" : "text-slate-200 group-hover:text-amber-400"}`}>
                 {isDragging ? "Drop to Analyze" : "Select or drop a diagram here"}
               </p>
-              <p className="text-xs sm:text-sm text-slate-500 mt-2">Compatible with JPG, PNG, WEBP</p>
+              <p className="text-xs sm:text-sm text-slate-500 mt-2">Compatible with JPG, PNG, WEBP and PDF · or paste a screenshot</p>
+            </div>
+
+            {/* Other sources, all ending in processFile */}
+            <div className="w-full mt-4 flex flex-col sm:flex-row sm:items-end gap-3">
+              <button
+                type="button"
+                onClick={() => setIsCameraOpen(true)}
+                className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors flex-shrink-0"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+                Take a Photo
+              </button>
+              <div className="flex-grow min-w-0">
+                <UrlImportForm onImport={processFile} />
+              </div>
             </div>
             <input 
               type="file" 
               ref={fileInputRef} 
               onChange={handleFileChange} 
               className="hidden" 
-              accept="image/*" 
+              accept="image/*,application/pdf" 
             />
+
+            <LibraryView onOpen={handleOpenEntry} />
           </div>
         )}
 
         {/* State: ANALYZING - Loading Spinner */}
-        {processingState.status === 'analyzing' && (
+        {processingState.status === 'analyzing' && !isStreaming && (
           <div className="flex flex-col items-center justify-center w-full h-[60vh] animate-in fade-in duration-700">
              {image && (
                 <div className="p-1 rounded-xl bg-gradient-to-br from-amber-500/20 to-indigo-500/20 mb-8 sm:mb-10">
@@ -219,30 +706,26 @@ const App: React.FC = () => {
             </div>
             <h3 className="mt-6 sm:mt-8 text-xl sm:text-2xl font-bold text-white tracking-wide text-center">Analyzing Visual Data...</h3>
             <p className="mt-2 text-sm sm:text-base text-indigo-300 animate-pulse text-center">Constructing explanation and formulating quiz</p>
+            <button
+              onClick={handleReset}
+              className="mt-8 px-6 py-2 text-sm font-medium text-indigo-300 hover:text-white rounded-lg border border-indigo-800 hover:border-indigo-600 hover:bg-indigo-950/50 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
         {/* State: ERROR */}
         {processingState.status === 'error' && (
-          <div className="flex flex-col items-center justify-center w-full mt-12 sm:mt-20 text-center">
-            <div className="p-4 bg-red-900/20 rounded-full mb-6 border border-red-500/20">
-              <svg className="w-10 h-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-              </svg>
-            </div>
-            <h3 className="text-xl font-bold text-white mb-2">Processing Error</h3>
-            <p className="text-slate-400 mb-8 max-w-md">{processingState.error}</p>
-            <button 
-              onClick={handleReset}
-              className="px-8 py-3 bg-indigo-900 hover:bg-indigo-800 text-white rounded-lg transition-colors border border-indigo-700 shadow-lg"
-            >
-              Try Again
-            </button>
-          </div>
+          <ErrorView
+            message={processingState.error}
+            kind={processingState.errorKind}
+            onReset={handleReset}
+          />
         )}
 
         {/* State: COMPLETE - Results View */}
-        {processingState.status === 'complete' && result && (
+        {displayResult && (
           <div className="w-full flex flex-col items-center animate-in fade-in slide-in-from-bottom-8 duration-700 h-full">
             
             {/* Top Section: Image Preview (Expanded size) */}
@@ -250,17 +733,69 @@ const App: React.FC = () => {
               <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent pointer-events-none"></div>
               {/* Increased height to h-64 sm:h-80 lg:h-96 for better visibility */}
               <div className="relative w-full h-64 sm:h-80 lg:h-96 flex items-center justify-center rounded-lg overflow-hidden bg-black/20">
-                <img 
-                  src={image!} 
-                  alt="Uploaded Diagram" 
-                  className="max-w-full max-h-full object-contain"
-                />
+                {/* Sized to the rendered image so hotspot percentages line up with it */}
+                <div className="relative max-w-full">
+                  <img 
+                    src={image!} 
+                    alt="Uploaded Diagram" 
+                    className="block max-w-full max-h-64 sm:max-h-80 lg:max-h-96 object-contain"
+                  />
+                  {result?.hotspots && result.hotspots.length > 0 && processingState.status === 'complete' && (
+                    <HotspotOverlay
+                      hotspots={result.hotspots}
+                      activeTerm={activeTerm}
+                      onActiveTermChange={setActiveTerm}
+                      onSelect={scrollToTerm}
+                    />
+                  )}
+                  {walkthroughStep !== null && result?.relationships[walkthroughStep] && processingState.status === 'complete' && (
+                    <StepOverlay step={result.relationships[walkthroughStep]} index={walkthroughStep} hotspots={result.hotspots ?? []} />
+                  )}
+                </div>
               </div>
                <div className="absolute bottom-3 left-4">
                 <h2 className="text-white font-bold text-sm sm:text-lg drop-shadow-md">Original Source</h2>
+                {result?.profile && (
+                  <p className="text-[11px] sm:text-xs text-indigo-200/80 drop-shadow-md">For {describeProfile(result.profile)}</p>
+                )}
               </div>
+              {/* Cache hit: the same image was analyzed before, so no model call was made */}
+              {cachedAt && processingState.status === 'complete' && (
+                <div className="absolute bottom-3 right-4 flex items-center space-x-2 bg-[#020617]/80 border border-indigo-800 rounded-lg pl-3 pr-1 py-1 text-xs text-indigo-200" role="status">
+                  <svg className="w-3.5 h-3.5 text-amber-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                  <span title={new Date(cachedAt).toLocaleString()}>Served from cache</span>
+                  <button
+                    onClick={handleReanalyze}
+                    className="px-2 py-0.5 rounded-md font-medium text-amber-400 hover:text-amber-300 hover:bg-indigo-950/70 transition-colors"
+                  >
+                    Re-analyze
+                  </button>
+                </div>
+              )}
             </div>
 
+            {/* Degraded output notice: parts of the model's answer failed validation and couldn't be repaired */}
+            {result?.validationIssues && (
+              <div className="w-full mb-6 bg-amber-950/30 border border-amber-500/30 rounded-xl px-4 py-3 text-sm text-amber-100" role="status">
+                <p className="font-semibold flex items-center">
+                  <svg className="w-4 h-4 mr-2 text-amber-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                  Parts of this analysis were incomplete and have been left out.
+                </p>
+                <details className="mt-1 text-amber-200/70">
+                  <summary className="cursor-pointer text-xs">Details</summary>
+                  <ul className="mt-1 text-xs font-mono space-y-0.5">
+                    {result.validationIssues.map((issue, i) => (
+                      <li key={i}>{issue.path}: {issue.message}</li>
+                    ))}
+                  </ul>
+                </details>
+              </div>
+            )}
+
             {/* Bottom Section: Split View (Explanation vs Quiz) */}
             {/* 
                 Calculated height explanation:
@@ -277,20 +812,104 @@ const App: React.FC = () => {
               {/* Left Column: Explanation */}
               <div className="h-[600px] lg:h-full">
                 <ExplanationView 
-                  title={result.title} 
-                  explanation={result.explanation}
-                  relationshipDescription={result.relationshipDescription}
+                  title={displayResult.title ?? ''} 
+                  explanation={displayResult.explanation ?? {}}
+                  relationships={displayResult.relationships}
+                  isStreaming={isStreaming}
+                  linkedTerms={result?.hotspots?.map(hotspot => termKey(hotspot.term))}
+                  activeTerm={activeTerm}
+                  onActiveTermChange={setActiveTerm}
+                  rewrites={processingState.status === 'complete' ? {
+                    history: explanationHistory,
+                    pending: rewritingSection,
+                    error: rewriteError,
+                    onRewrite: handleRewriteSection,
+                    onSelectVersion: handleSelectVersion,
+                  } : undefined}
+                  walkthroughStep={walkthroughStep}
+                  onWalkthroughStepChange={processingState.status === 'complete' ? setWalkthroughStep : undefined}
                 />
               </div>
 
-              {/* Right Column: Quiz */}
-              <div className="h-[500px] lg:h-full">
-                 <QuizView 
-                   questions={result.quiz} 
-                   onGenerateMore={handleGenerateMoreQuestions}
-                   isGeneratingMore={isGeneratingMore}
-                   imageSrc={image}
-                 />
+              {/* Right Column: Quiz, or labelling practice when the image has labels to hide */}
+              <div className="h-[500px] lg:h-full flex flex-col">
+                {result && (
+                  <div className="flex items-center gap-1 mb-2 flex-shrink-0">
+                    {canLabel && (
+                      <div role="tablist" aria-label="Practice type" className="flex gap-1">
+                        {(['quiz', 'labels'] as const).map(mode => (
+                          <button
+                            key={mode}
+                            role="tab"
+                            aria-selected={practiceMode === mode}
+                            onClick={() => setPracticeMode(mode)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${
+                              practiceMode === mode
+                                ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                                : 'bg-[#0f172a] border-indigo-900/50 text-slate-400 hover:text-slate-200'
+                            }`}
+                          >
+                            {mode === 'quiz' ? 'Quiz' : 'Label the Diagram'}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="ml-auto flex items-center gap-1">
+                      {image && <WorksheetDialog result={result} image={image} />}
+                      <QuizExportMenu
+                        quiz={result.quiz}
+                        bank={bank}
+                        title={result.title}
+                        image={image}
+                        onImport={handleImportQuestions}
+                      />
+                    </div>
+                  </div>
+                )}
+                <div className="flex-grow min-h-0">
+                   {result ? (
+                     // Both stay mounted so switching tabs keeps each one's progress
+                     <>
+                       <div className={`h-full ${practiceMode === 'quiz' || !canLabel ? '' : 'hidden'}`}>
+                         <QuizView 
+                           questions={result.quiz} 
+                           onGenerateMore={handleGenerateMoreQuestions}
+                           topics={extractTopics(result)}
+                           bank={bank}
+                           onSampleFromBank={handleSampleFromBank}
+                           onComplete={handleQuizComplete}
+                           isGeneratingMore={isGeneratingMore}
+                           generateError={quizError}
+                           chatMessages={chatMessages}
+                           isChatLoading={isChatLoading}
+                           onAskTutor={handleAskTutor}
+                           onStopTutor={handleStopTutor}
+                         />
+                       </div>
+                       {canLabel && (
+                         <div className={`h-full ${practiceMode === 'labels' ? '' : 'hidden'}`}>
+                           <LabelExercise image={image!} labels={result.labels!} />
+                         </div>
+                       )}
+                     </>
+                   ) : (
+                     // The quiz only appears once every question has arrived
+                     <div className="bg-[#0f172a] rounded-xl p-6 border border-indigo-900/50 shadow-2xl h-full flex flex-col items-center justify-center text-center" role="status">
+                       <div className="relative w-12 h-12 mb-5">
+                         <div className="absolute top-0 left-0 w-full h-full border-4 border-indigo-900/50 rounded-full"></div>
+                         <div className="absolute top-0 left-0 w-full h-full border-4 border-amber-500 rounded-full animate-spin border-t-transparent"></div>
+                       </div>
+                       <p className="text-white font-bold">Formulating quiz...</p>
+                       <p className="mt-1 text-sm text-indigo-300 animate-pulse">Questions appear once the explanation is complete</p>
+                       <button
+                         onClick={handleReset}
+                         className="mt-6 px-6 py-2 text-sm font-medium text-indigo-300 hover:text-white rounded-lg border border-indigo-800 hover:border-indigo-600 hover:bg-indigo-950/50 transition-colors"
+                       >
+                         Cancel Analysis
+                       </button>
+                     </div>
+                   )}
+                </div>
               </div>
 
             </div>
@@ -0,0 +1,91 @@
+import React from 'react';
+import { AudienceProfile, GradeBand } from '../types';
+import { GRADE_BANDS, KEY_TERM_RANGE, LANGUAGES } from '../services/audienceProfile';
+
+interface AudienceProfileSelectorProps {
+  profile: AudienceProfile;
+  onChange: (profile: AudienceProfile) => void;
+}
+
+const selectClassName =
+  'w-full bg-[#1e293b] text-slate-200 text-sm px-3 py-2 rounded-lg border border-indigo-900/50 outline-none focus:border-amber-500/50';
+
+const labelClassName = 'block text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-1.5';
+
+const AudienceProfileSelector: React.FC<AudienceProfileSelectorProps> = ({ profile, onChange }) => {
+  const update = <K extends keyof AudienceProfile>(key: K, value: AudienceProfile[K]) =>
+    onChange({ ...profile, [key]: value });
+
+  return (
+    <fieldset className="w-full mb-6 bg-slate-900/50 border border-indigo-900/50 rounded-2xl p-4 sm:p-5">
+      <legend className="px-2 text-xs font-bold text-amber-500 uppercase tracking-widest">Explain it for</legend>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+        <div>
+          <label htmlFor="profile-grade" className={labelClassName}>Level</label>
+          <select
+            id="profile-grade"
+            value={profile.gradeBand}
+            onChange={(e) => update('gradeBand', e.target.value as GradeBand)}
+            className={selectClassName}
+          >
+            {(Object.keys(GRADE_BANDS) as GradeBand[]).map(band => (
+              <option key={band} value={band}>{GRADE_BANDS[band].label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="profile-language" className={labelClassName}>Language</label>
+          <select
+            id="profile-language"
+            value={profile.language}
+            onChange={(e) => update('language', e.target.value)}
+            className={selectClassName}
+          >
+            {LANGUAGES.map(language => (
+              <option key={language} value={language}>{language}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="profile-terms" className={labelClassName}>Key terms</label>
+          <select
+            id="profile-terms"
+            value={profile.keyTermCount}
+            onChange={(e) => update('keyTermCount', Number(e.target.value))}
+            className={selectClassName}
+          >
+            {Array.from({ length: KEY_TERM_RANGE.max - KEY_TERM_RANGE.min + 1 }, (_, i) => KEY_TERM_RANGE.min + i).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <span id="profile-tone" className={labelClassName}>Tone</span>
+          <div role="radiogroup" aria-labelledby="profile-tone" className="flex rounded-lg border border-indigo-900/50 overflow-hidden">
+            {(['concise', 'detailed'] as const).map(tone => (
+              <button
+                key={tone}
+                type="button"
+                role="radio"
+                aria-checked={profile.tone === tone}
+                onClick={() => update('tone', tone)}
+                className={`flex-1 px-2 py-2 text-sm font-medium capitalize transition-colors ${
+                  profile.tone === tone
+                    ? 'bg-amber-500/20 text-amber-300'
+                    : 'bg-[#1e293b] text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {tone}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </fieldset>
+  );
+};
+
+export default AudienceProfileSelector;
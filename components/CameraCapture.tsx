@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraFacing, captureFrame, openCamera } from '../services/imageImport';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+}
+
+/** A live camera preview with a shutter, for photographing a textbook page or a whiteboard. */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facing, setFacing] = useState<CameraFacing>('environment');
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // (Re)open the camera whenever the facing changes, and always release it afterwards
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    setIsReady(false);
+    setError(null);
+
+    openCamera(facing)
+      .then(opened => {
+        stream = opened;
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) videoRef.current.srcObject = opened;
+      })
+      .catch(err => !cancelled && setError(err.message));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facing]);
+
+  const handleCapture = async () => {
+    if (!videoRef.current || !isReady) return;
+    try {
+      onCapture(await captureFrame(videoRef.current));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mt-4 sm:mt-8 bg-[#0f172a] rounded-xl p-4 sm:p-6 border border-indigo-900/50 shadow-2xl relative overflow-hidden animate-in fade-in duration-500">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-amber-600 via-yellow-500 to-amber-600"></div>
+
+      <div className="flex items-center justify-between gap-3 mb-4 pb-3 border-b border-indigo-900/30">
+        <h2 className="text-lg font-bold text-white tracking-tight">Take a Photo</h2>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-indigo-300 hover:text-white rounded-lg border border-indigo-800 hover:border-indigo-600 hover:bg-indigo-950/50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-300 bg-red-950/40 border border-red-900/50 rounded-lg px-3 py-2" role="alert">{error}</p>
+      ) : (
+        <>
+          <div className="relative rounded-lg overflow-hidden bg-black aspect-video flex items-center justify-center">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={() => setIsReady(true)}
+              className="w-full h-full object-contain"
+              aria-label="Camera preview"
+            />
+            {!isReady && (
+              <span className="absolute text-sm text-indigo-300 animate-pulse">Starting camera...</span>
+            )}
+          </div>
+          <p className="text-xs text-indigo-300 mt-2 text-center">Fill the frame with the diagram and hold steady. You can crop and straighten next.</p>
+          <div className="mt-4 flex items-center justify-center gap-3">
+            <button
+              type="button"
+              onClick={() => setFacing(prev => (prev === 'environment' ? 'user' : 'environment'))}
+              className="px-3 py-2 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors"
+            >
+              Switch Camera
+            </button>
+            <button
+              type="button"
+              onClick={handleCapture}
+              disabled={!isReady}
+              className="px-6 py-2.5 bg-amber-600 hover:bg-amber-500 text-white rounded-xl font-bold text-sm transition-all border-b-4 border-amber-800 active:border-b-0 active:translate-y-1 focus:outline-none focus:ring-4 focus:ring-amber-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Capture
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { ModelErrorKind } from '../types';
+
+interface ErrorViewProps {
+  message?: string;
+  kind?: ModelErrorKind;
+  onReset: () => void;
+}
+
+interface ErrorCopy {
+  title: string;
+  remedy: string;
+  action: string;
+}
+
+// Also used for failures shown inline, e.g. QuizView's "Generate New Questions"
+export const ERROR_COPY: Record<ModelErrorKind, ErrorCopy> = {
+  'api-key': {
+    title: 'API Key Problem',
+    remedy: 'Set a valid GEMINI_API_KEY in .env.local and restart the dev server.',
+    action: 'Try Again',
+  },
+  quota: {
+    title: 'Usage Limit Reached',
+    remedy: 'Too many requests were sent. Wait a minute before trying again, or check the quota on your API plan.',
+    action: 'Try Again',
+  },
+  safety: {
+    title: 'Content Blocked',
+    remedy: 'The model declined to process this image. Try a different diagram or crop out unrelated content.',
+    action: 'Upload Another Image',
+  },
+  network: {
+    title: 'Connection Problem',
+    remedy: 'Check your internet connection, then try again.',
+    action: 'Try Again',
+  },
+  unavailable: {
+    title: 'Service Busy',
+    remedy: 'The model service is temporarily overloaded. Try again in a few moments.',
+    action: 'Try Again',
+  },
+  'not-a-diagram': {
+    title: 'Not a Diagram',
+    remedy: 'Upload a chart, schematic, flowchart or labeled illustration. Make sure the labels are sharp and readable.',
+    action: 'Upload a Diagram',
+  },
+  timeout: {
+    title: 'Request Timed Out',
+    remedy: 'The model took too long to answer. Try again, or use a smaller or simpler image.',
+    action: 'Try Again',
+  },
+  // Cancellation returns to the upload screen, so this is only a fallback
+  cancelled: {
+    title: 'Analysis Cancelled',
+    remedy: 'Upload the diagram again whenever you are ready.',
+    action: 'Start Over',
+  },
+  'malformed-output': {
+    title: 'Unexpected Response',
+    remedy: "The model's answer couldn't be read, even after retrying. Trying again usually fixes this.",
+    action: 'Try Again',
+  },
+  unknown: {
+    title: 'Processing Error',
+    remedy: 'Please try again.',
+    action: 'Try Again',
+  },
+};
+
+const ErrorView: React.FC<ErrorViewProps> = ({ message, kind = 'unknown', onReset }) => {
+  const copy = ERROR_COPY[kind];
+  // Rejecting a photo isn't a failure, so it gets the softer amber treatment
+  const isNotice = kind === 'not-a-diagram';
+
+  return (
+    <div className="flex flex-col items-center justify-center w-full mt-12 sm:mt-20 text-center" role="alert">
+      <div className={`p-4 rounded-full mb-6 border ${isNotice ? 'bg-amber-900/20 border-amber-500/20' : 'bg-red-900/20 border-red-500/20'}`}>
+        <svg className={`w-10 h-10 ${isNotice ? 'text-amber-400' : 'text-red-400'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+      </div>
+      <h3 className="text-xl font-bold text-white mb-2">{copy.title}</h3>
+      {message && <p className="text-slate-300 mb-2 max-w-md">{message}</p>}
+      <p className="text-slate-400 mb-8 max-w-md text-sm">{copy.remedy}</p>
+      <button 
+        onClick={onReset}
+        className="px-8 py-3 bg-indigo-900 hover:bg-indigo-800 text-white rounded-lg transition-colors border border-indigo-700 shadow-lg"
+      >
+        {copy.action}
+      </button>
+    </div>
+  );
+};
+
+export default ErrorView;
@@ -1,12 +1,145 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ExplanationSection, PartialExplanation, RelationshipStep } from '../types';
+import { EXPLANATION_SECTIONS } from '../services/explanation';
+import { termAnchorId, termKey } from '../services/hotspots';
+import { MarkdownBlock, parseMarkdown, strongTexts } from '../services/markdown';
+import { renderMarkdown } from './Markdown';
+import MathText from './MathText';
+import RelationshipWalkthrough from './RelationshipWalkthrough';
+import SectionControls, { SectionRewriteState } from './SectionControls';
 
 interface ExplanationViewProps {
   title: string;
-  explanation: string;
-  relationshipDescription: string;
+  explanation: PartialExplanation;
+  relationships?: Partial<RelationshipStep>[]; // Undefined while the explanation is still streaming
+  isStreaming?: boolean;
+  linkedTerms?: string[]; // termKeys of the terms that have a hotspot on the image
+  activeTerm?: string | null;
+  onActiveTermChange?: (term: string | null) => void;
+  rewrites?: SectionRewriteState; // Offers rewrites of each section once the explanation is complete
+  walkthroughStep?: number | null; // Index into relationships, or null outside walkthrough mode
+  onWalkthroughStepChange?: (index: number | null) => void; // Set once the analysis is complete
 }
 
-const ExplanationView: React.FC<ExplanationViewProps> = ({ title, explanation, relationshipDescription }) => {
+interface TermLinks {
+  linkedTerms: string[];
+  activeTerm: string | null;
+  onActiveTermChange?: (term: string | null) => void;
+}
+
+const PROSE_SECTIONS = ['mainPurpose', 'howItWorks', 'summary'] as const;
+const SECTION_ORDER: (keyof PartialExplanation)[] = ['mainPurpose', 'keyTerms', 'components', 'howItWorks', 'summary'];
+
+// While a section is still arriving, hold back its unfinished last word and
+// any bold or formula still open, so half-written markup never flashes on screen
+const settledText = (text: string) => {
+  let settled = text.slice(0, Math.max(text.lastIndexOf(' '), text.lastIndexOf('\n')) + 1);
+  for (const marker of ['**', '$']) {
+    if (settled.split(marker).length % 2 === 0) settled = settled.slice(0, settled.lastIndexOf(marker));
+  }
+  return settled;
+};
+
+/** A key term or component name; linked to a hotspot, hovering or focusing it highlights the region on the image. */
+const Term: React.FC<TermLinks & { term: string; id?: string }> = ({ term, id, linkedTerms, activeTerm, onActiveTermChange }) => {
+  const key = termKey(term);
+  if (!linkedTerms.includes(key)) {
+    return (
+      <strong id={id} className="scroll-mt-8 text-amber-200 font-bold bg-amber-900/30 px-1 rounded-sm border-b border-amber-500/30">
+        {term}
+      </strong>
+    );
+  }
+  return (
+    <strong
+      id={id}
+      tabIndex={0}
+      onMouseEnter={() => onActiveTermChange?.(key)}
+      onMouseLeave={() => onActiveTermChange?.(null)}
+      onFocus={() => onActiveTermChange?.(key)}
+      onBlur={() => onActiveTermChange?.(null)}
+      className={`scroll-mt-8 font-bold px-1 rounded-sm border-b cursor-help outline-none transition-colors ${
+        key === activeTerm
+          ? 'text-black bg-amber-400 border-amber-200'
+          : 'text-amber-200 bg-amber-900/30 border-dashed border-amber-400/70'
+      }`}
+    >
+      {term}
+    </strong>
+  );
+};
+
+const SectionHeading: React.FC<{ children: React.ReactNode; actions?: React.ReactNode }> = ({ children, actions }) => (
+  <div className="flex flex-wrap items-center justify-between gap-2 mt-8 mb-4">
+    <h3 className="text-xl font-bold text-amber-400 flex items-center uppercase tracking-wide text-sm">
+      <span className="w-4 h-1 bg-amber-500 mr-3 inline-block rounded-full"></span>
+      {children}
+    </h3>
+    {actions}
+  </div>
+);
+
+/**
+ * Markdown prose. Bold terms anchor their first mention for hotspots to
+ * scroll to, unless `claimed` says an earlier place already has the anchor.
+ */
+const ProseSection: React.FC<TermLinks & { heading: string; actions?: React.ReactNode; blocks: MarkdownBlock[]; claimed: Set<string> }> = ({
+  heading,
+  actions,
+  blocks,
+  claimed,
+  ...links
+}) => {
+  const anchored = new Set(claimed);
+  const renderStrong = (term: string, i: React.Key) => {
+    const key = termKey(term);
+    const id = anchored.has(key) ? undefined : termAnchorId(term);
+    anchored.add(key);
+    return <Term key={i} term={term} id={id} {...links} />;
+  };
+
+  return (
+    <section>
+      <SectionHeading actions={actions}>{heading}</SectionHeading>
+      {renderMarkdown(blocks, { variant: 'article', renderStrong })}
+    </section>
+  );
+};
+
+/** Key terms or components with their definitions; each entry is the anchor for its term. */
+const DefinitionSection: React.FC<TermLinks & { heading: string; actions?: React.ReactNode; entries: { name: string; text: string; id?: string }[] }> = ({
+  heading,
+  actions,
+  entries,
+  ...links
+}) => (
+  <section>
+    <SectionHeading actions={actions}>{heading}</SectionHeading>
+    <ul className="space-y-4 mb-8">
+      {entries.map((entry, i) => (
+        <li key={i} id={entry.id} className="scroll-mt-8 flex items-start pl-3 border-l-4 border-indigo-900/50 hover:border-amber-500 transition-colors group bg-[#0B1021] p-3 rounded-r-lg">
+          <span className="text-amber-500 mr-3 mt-1.5 transition-transform group-hover:scale-110 select-none text-lg" aria-hidden="true">•</span>
+          <span className="text-slate-200 leading-relaxed text-lg">
+            <Term term={entry.name} {...links} />{entry.text && <>: <MathText text={entry.text} /></>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </section>
+);
+
+const ExplanationView: React.FC<ExplanationViewProps> = ({
+  title,
+  explanation,
+  relationships,
+  isStreaming = false,
+  linkedTerms = [],
+  activeTerm = null,
+  onActiveTermChange,
+  rewrites,
+  walkthroughStep = null,
+  onWalkthroughStepChange,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const bgRef = useRef<HTMLDivElement>(null);
   const [isVisible, setIsVisible] = useState(false);
@@ -26,98 +159,49 @@ const ExplanationView: React.FC<ExplanationViewProps> = ({ title, explanation, r
     }
   };
 
-  // Simple markdown-to-JSX parser for basic formatting
-  const formatText = (text: string) => {
-    const lines = text.split('\n');
-    const elements: React.ReactNode[] = [];
-    let currentListItems: React.ReactNode[] = [];
-
-    // Helper to render accumulated list items
-    const renderList = (items: React.ReactNode[], key: string) => (
-      <ul key={key} className="space-y-4 mb-8">
-        {items}
-      </ul>
-    );
+  const isExplanationComplete = !isStreaming || relationships !== undefined;
+  const steps = (relationships ?? []).filter(step => step.description);
+  const streamingSection = isExplanationComplete ? null : [...SECTION_ORDER].reverse().find(field => explanation[field] !== undefined);
 
-    const parseInlineStyles = (text: string) => {
-      // Bold: **text**
-      const parts = text.split(/(\*\*.*?\*\*)/g);
-      return parts.map((part, i) => {
-        if (part.startsWith('**') && part.endsWith('**')) {
-          return (
-            <strong key={i} className="text-amber-200 font-bold bg-amber-900/30 px-1 rounded-sm border-b border-amber-500/30">
-              {part.slice(2, -2)}
-            </strong>
-          );
-        }
-        return part;
+  const prose = PROSE_SECTIONS.map(field => {
+    const text = explanation[field] ?? '';
+    return field === streamingSection ? settledText(text) : text;
+  });
+  const proseBlocks = useMemo(() => prose.map(text => parseMarkdown(text)), prose);
+
+  // Each term gets one anchor for hotspots to scroll to: its entry under key
+  // terms or components, otherwise its first bold mention in the prose
+  const claimed = new Set<string>();
+  const listEntries = (entries: { name?: string; text?: string }[] = []) =>
+    entries
+      .filter(entry => entry.name?.trim())
+      .map(({ name, text = '' }) => {
+        const key = termKey(name!);
+        const id = claimed.has(key) ? undefined : termAnchorId(name!);
+        claimed.add(key);
+        return { name: name!, text, id };
       });
-    };
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const isBullet = line.trim().startsWith('- ');
-
-      if (isBullet) {
-        currentListItems.push(
-          <li key={`li-${i}`} className="flex items-start pl-3 border-l-4 border-indigo-900/50 hover:border-amber-500 transition-colors group bg-[#0B1021] p-3 rounded-r-lg">
-             <span className="text-amber-500 mr-3 mt-1.5 transition-transform group-hover:scale-110 select-none text-lg" aria-hidden="true">•</span>
-             <span className="text-slate-200 leading-relaxed text-lg">{parseInlineStyles(line.replace('- ', ''))}</span>
-          </li>
-        );
-        
-        // If next line is NOT bullet or end of text, flush list
-        const nextLine = lines[i + 1];
-        if (!nextLine || !nextLine.trim().startsWith('- ')) {
-          elements.push(renderList(currentListItems, `ul-${i}`));
-          currentListItems = [];
-        }
-        continue;
-      }
-      
-      // Headers
-      if (line.startsWith('## ')) {
-        elements.push(
-          <h2 key={i} className="text-2xl md:text-3xl font-bold text-white mt-10 mb-6 border-b border-indigo-900/50 pb-3 flex items-center">
-            {line.replace('## ', '')}
-          </h2>
-        );
-      }
-      else if (line.startsWith('### ')) {
-        elements.push(
-          <h3 key={i} className="text-xl font-bold text-amber-400 mt-8 mb-4 flex items-center uppercase tracking-wide text-sm">
-            <span className="w-4 h-1 bg-amber-500 mr-3 inline-block rounded-full"></span>
-            {line.replace('### ', '')}
-          </h3>
-        );
-      }
-      // Numbered lists
-      else if (/^\d+\.\s/.test(line.trim())) {
-        const match = line.match(/^(\d+)\.\s(.*)/);
-        if (match) {
-           elements.push(
-             <div key={i} className="flex items-start mb-4 ml-1 bg-[#0B1021] p-3 rounded-lg border border-indigo-900/20">
-              <span className="text-amber-500 font-mono font-bold mr-4 mt-0.5 text-xl opacity-80">{match[1]}.</span>
-              <span className="text-slate-200 leading-relaxed text-lg">{parseInlineStyles(match[2])}</span>
-            </div>
-          );
-        }
-      }
-      // Spacers
-      else if (line.trim() === '') {
-        elements.push(<div key={i} className="h-4" />);
-      }
-      // Paragraphs
-      else {
-        elements.push(
-          <p key={i} className="text-slate-300 leading-relaxed mb-6 text-lg">
-            {parseInlineStyles(line)}
-          </p>
-        );
-      }
-    }
-    return elements;
-  };
+  const keyTerms = listEntries(explanation.keyTerms?.map(entry => ({ name: entry.term, text: entry.definition })));
+  const components = listEntries(explanation.components?.map(entry => ({ name: entry.name, text: entry.role })));
+  const proseClaims = proseBlocks.map(blocks => {
+    const before = new Set(claimed);
+    strongTexts(blocks).forEach(term => claimed.add(termKey(term)));
+    return before;
+  });
+
+  const links: TermLinks = { linkedTerms, activeTerm, onActiveTermChange };
+  const actions = (section: ExplanationSection) =>
+    rewrites && isExplanationComplete && <SectionControls section={section} heading={EXPLANATION_SECTIONS[section]} {...rewrites} />;
+  const proseSection = (index: number) =>
+    proseBlocks[index].length > 0 && (
+      <ProseSection
+        heading={EXPLANATION_SECTIONS[PROSE_SECTIONS[index]]}
+        actions={actions(PROSE_SECTIONS[index])}
+        blocks={proseBlocks[index]}
+        claimed={proseClaims[index]}
+        {...links}
+      />
+    );
 
   return (
     <div 
@@ -153,18 +237,26 @@ const ExplanationView: React.FC<ExplanationViewProps> = ({ title, explanation, r
         </div>
         
         <div className={`prose prose-invert max-w-none transform transition-all duration-1000 delay-700 ${isVisible ? 'opacity-100' : 'opacity-0'}`}>
-          {formatText(explanation)}
+          {proseSection(0)}
+          {keyTerms.length > 0 && <DefinitionSection heading={EXPLANATION_SECTIONS.keyTerms} actions={actions('keyTerms')} entries={keyTerms} {...links} />}
+          {components.length > 0 && <DefinitionSection heading={EXPLANATION_SECTIONS.components} actions={actions('components')} entries={components} {...links} />}
+          {proseSection(1)}
+          {proseSection(2)}
+          {!isExplanationComplete && (
+            <div className="flex items-center space-x-1 py-2" aria-label="Explanation loading">
+              <div className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+              <div className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+              <div className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+            </div>
+          )}
         </div>
 
-        <div className={`mt-8 pt-6 border-t border-indigo-900/30 transform transition-all duration-1000 delay-1000 ${isVisible ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'}`}>
-          <h3 className="text-xl font-bold text-white mb-4 flex items-center">
-            <span className="w-1 h-6 bg-amber-500 mr-3 rounded-full shadow-[0_0_8px_rgba(245,158,11,0.5)]"></span>
-            Key Relationship Detail
-          </h3>
-          <p className="text-slate-300 italic leading-relaxed text-lg bg-[#0B1021] p-5 rounded-lg border border-indigo-900/20 shadow-inner">
-            {relationshipDescription}
-          </p>
-        </div>
+        {/* Hidden when the model left it out; App shows a notice for that case */}
+        {steps.length > 0 && (
+          <div className={`mt-8 pt-6 border-t border-indigo-900/30 transform transition-all duration-1000 delay-1000 ${isVisible ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'}`}>
+            <RelationshipWalkthrough steps={steps} activeStep={walkthroughStep} onActiveStepChange={onWalkthroughStepChange} />
+          </div>
+        )}
       </div>
     </div>
   );
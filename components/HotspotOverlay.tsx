@@ -0,0 +1,55 @@
+import React from 'react';
+import { Hotspot } from '../types';
+import { termKey } from '../services/hotspots';
+
+interface HotspotOverlayProps {
+  hotspots: Hotspot[];
+  activeTerm: string | null; // termKey of the highlighted term, shared with the explanation
+  onActiveTermChange: (term: string | null) => void;
+  onSelect: (term: string) => void;
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+
+/**
+ * Outlines for the diagram's key terms and components, laid over the image
+ * preview. Must sit in a box exactly the size of the rendered image.
+ */
+const HotspotOverlay: React.FC<HotspotOverlayProps> = ({ hotspots, activeTerm, onActiveTermChange, onSelect }) => {
+  // Smaller boxes are drawn last so they stay clickable inside larger ones
+  const ordered = [...hotspots].sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+
+  return (
+    <div className="absolute inset-0" onMouseLeave={() => onActiveTermChange(null)}>
+      {ordered.map(({ term, box }) => {
+        const key = termKey(term);
+        const isActive = key === activeTerm;
+        return (
+          <button
+            key={`${key}-${box.x}-${box.y}`}
+            type="button"
+            aria-label={`${term}: show in explanation`}
+            onMouseEnter={() => onActiveTermChange(key)}
+            onFocus={() => onActiveTermChange(key)}
+            onBlur={() => onActiveTermChange(null)}
+            onClick={() => onSelect(term)}
+            style={{ left: percent(box.x), top: percent(box.y), width: percent(box.width), height: percent(box.height) }}
+            className={`absolute rounded-md border-2 transition-all duration-200 outline-none ${
+              isActive
+                ? 'border-amber-400 bg-amber-400/20 shadow-[0_0_12px_rgba(245,158,11,0.5)] opacity-100 z-10'
+                : 'border-amber-300/60 bg-transparent opacity-0 group-hover:opacity-100 focus:opacity-100'
+            }`}
+          >
+            {isActive && (
+              <span className={`absolute left-0 ${box.y < 0.1 ? 'top-full mt-1' : 'bottom-full mb-1'} whitespace-nowrap bg-[#020617]/90 border border-amber-500/50 text-amber-200 text-[11px] font-bold px-2 py-0.5 rounded-md pointer-events-none`}>
+                {term}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HotspotOverlay;
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { ImageEdits, ImageOutputSettings } from '../types';
+import {
+  MAX_SIDE_OPTIONS,
+  NO_EDITS,
+  QUALITY_OPTIONS,
+  STRAIGHTEN_LIMIT,
+  dataUrlBytes,
+  encodeImage,
+  formatBytes,
+  readImageFile,
+  renderEdited,
+} from '../services/imageUtils';
+import RegionSelector from './RegionSelector';
+
+interface ImageEditorProps {
+  file: File;
+  output: ImageOutputSettings;
+  onOutputChange: (output: ImageOutputSettings) => void;
+  onCancel: () => void;
+  onConfirm: (image: string) => void; // The edited, compressed data URL
+}
+
+// The on-screen preview only needs to be sharp enough to crop against
+const PREVIEW_SIZE = 1200;
+// Re-encoding a large photo takes a moment, so wait for the slider to settle
+const ENCODE_DELAY_MS = 300;
+
+const selectClassName =
+  'w-full bg-[#1e293b] text-slate-200 text-sm px-3 py-2 rounded-lg border border-indigo-900/50 outline-none focus:border-amber-500/50';
+
+const labelClassName = 'block text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-1.5';
+
+const toolButtonClassName =
+  'flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-amber-400';
+
+/**
+ * The step between choosing a photo and analyzing it: turn it upright,
+ * straighten a tilted shot, crop away the desk around the page and lift the
+ * contrast, with a running count of how much smaller the upload will be.
+ */
+const ImageEditor: React.FC<ImageEditorProps> = ({ file, output, onOutputChange, onCancel, onConfirm }) => {
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(NO_EDITS);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [encoded, setEncoded] = useState<{ image: string; width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let decoded: ImageBitmap | null = null;
+    setSource(null);
+    setEdits(NO_EDITS);
+    setError(null);
+
+    readImageFile(file)
+      .then(bitmap => {
+        decoded = bitmap;
+        if (cancelled) bitmap.close();
+        else setSource(bitmap);
+      })
+      .catch(err => !cancelled && setError(err.message));
+
+    return () => {
+      cancelled = true;
+      decoded?.close();
+    };
+  }, [file]);
+
+  // The whole image with every edit but the crop, which is drawn over it instead
+  useEffect(() => {
+    if (!source) return;
+    setPreview(renderEdited(source, { ...edits, crop: null }, PREVIEW_SIZE).toDataURL('image/jpeg', 0.85));
+  }, [source, edits.rotation, edits.straighten, edits.enhance]);
+
+  // What will actually be uploaded, for the size readout
+  useEffect(() => {
+    if (!source) return;
+    setEncoded(null);
+    const timer = setTimeout(() => {
+      const canvas = renderEdited(source, edits, output.maxSide);
+      setEncoded({ image: canvas.toDataURL('image/jpeg', output.quality), width: canvas.width, height: canvas.height });
+    }, ENCODE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [source, edits, output]);
+
+  const update = <K extends keyof ImageEdits>(key: K, value: ImageEdits[K]) =>
+    setEdits(prev => ({ ...prev, [key]: value }));
+
+  // A crop drawn on the old orientation no longer covers the same part of the image
+  const rotate = (quarterTurns: number) =>
+    setEdits(prev => ({ ...prev, rotation: (((prev.rotation + quarterTurns * 90) % 360) + 360) % 360 as ImageEdits['rotation'], crop: null }));
+
+  const handleConfirm = () => {
+    if (!source) return;
+    onConfirm(encoded?.image ?? encodeImage(source, edits, output));
+  };
+
+  const savedPercent = encoded ? Math.round((1 - dataUrlBytes(encoded.image) / file.size) * 100) : null;
+
+  return (
+    <div className="w-full max-w-5xl mt-4 sm:mt-8 bg-[#0f172a] rounded-xl p-4 sm:p-6 border border-indigo-900/50 shadow-2xl relative overflow-hidden animate-in fade-in duration-500">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-amber-600 via-yellow-500 to-amber-600"></div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 pb-3 border-b border-indigo-900/30">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-white tracking-tight truncate" title={file.name}>Prepare {file.name}</h2>
+          <p className="text-xs text-indigo-300 mt-0.5">Straighten, crop and brighten the diagram so the model sees it clearly.</p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-indigo-300 hover:text-white rounded-lg border border-indigo-800 hover:border-indigo-600 hover:bg-indigo-950/50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!source}
+            className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg font-bold text-sm transition-colors focus:outline-none focus:ring-4 focus:ring-amber-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Analyze Diagram
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-300 bg-red-950/40 border border-red-900/50 rounded-lg px-3 py-2" role="alert">{error}</p>
+      ) : (
+        <div className="grid lg:grid-cols-[1fr_16rem] gap-5">
+          <div className="min-w-0">
+            {preview ? (
+              <div className="max-w-3xl mx-auto">
+                <RegionSelector
+                  image={preview}
+                  alt="Diagram being prepared"
+                  region={edits.crop}
+                  onChange={crop => update('crop', crop)}
+                />
+              </div>
+            ) : (
+              <div className="h-64 flex items-center justify-center text-sm text-indigo-300 animate-pulse">Loading image...</div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <span className={labelClassName}>Rotate</span>
+              <div className="grid grid-cols-2 gap-2">
+                <button type="button" onClick={() => rotate(-1)} disabled={!source} className={toolButtonClassName} aria-label="Rotate left">
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                  </svg>
+                  Left
+                </button>
+                <button type="button" onClick={() => rotate(1)} disabled={!source} className={toolButtonClassName} aria-label="Rotate right">
+                  Right
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between">
+                <label htmlFor="edit-straighten" className={labelClassName}>Straighten</label>
+                <span className="text-xs text-slate-300 mb-1.5">{edits.straighten > 0 ? '+' : ''}{edits.straighten}°</span>
+              </div>
+              <input
+                id="edit-straighten"
+                type="range"
+                min={-STRAIGHTEN_LIMIT}
+                max={STRAIGHTEN_LIMIT}
+                step={0.5}
+                value={edits.straighten}
+                onChange={(e) => update('straighten', Number(e.target.value))}
+                onDoubleClick={() => update('straighten', 0)}
+                disabled={!source}
+                className="w-full accent-amber-500"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={edits.enhance}
+                onChange={(e) => update('enhance', e.target.checked)}
+                disabled={!source}
+                className="w-4 h-4 accent-amber-500"
+              />
+              Enhance contrast
+            </label>
+
+            <div className="grid grid-cols-2 gap-3 pt-3 border-t border-indigo-900/30">
+              <div>
+                <label htmlFor="output-size" className={labelClassName}>Max size</label>
+                <select
+                  id="output-size"
+                  value={output.maxSide}
+                  onChange={(e) => onOutputChange({ ...output, maxSide: Number(e.target.value) })}
+                  className={selectClassName}
+                >
+                  {MAX_SIDE_OPTIONS.map(side => (
+                    <option key={side} value={side}>{side}px</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="output-quality" className={labelClassName}>Quality</label>
+                <select
+                  id="output-quality"
+                  value={output.quality}
+                  onChange={(e) => onOutputChange({ ...output, quality: Number(e.target.value) })}
+                  className={selectClassName}
+                >
+                  {QUALITY_OPTIONS.map(option => (
+                    <option key={option.quality} value={option.quality}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Payload size before and after */}
+            <div className="text-xs text-indigo-200 bg-indigo-950/60 border border-indigo-800 rounded-lg px-3 py-2 space-y-0.5" role="status">
+              <div className="flex justify-between gap-2">
+                <span className="text-indigo-400">Original</span>
+                <span>{formatBytes(file.size)}{source && ` · ${source.width}×${source.height}`}</span>
+              </div>
+              <div className="flex justify-between gap-2">
+                <span className="text-indigo-400">Upload</span>
+                <span>{encoded ? `${formatBytes(dataUrlBytes(encoded.image))} · ${encoded.width}×${encoded.height}` : '...'}</span>
+              </div>
+              {savedPercent !== null && (
+                <div className={`font-bold text-right ${savedPercent > 0 ? 'text-amber-400' : 'text-slate-400'}`}>
+                  {savedPercent > 0 ? `${savedPercent}% smaller` : 'No smaller than the original'}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageEditor;
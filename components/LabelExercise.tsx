@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DiagramLabel } from '../types';
+import { normalizeFillIn, shuffledIndices } from '../services/questionTypes';
+import { drawMaskedImage } from '../services/imageUtils';
+
+interface LabelExerciseProps {
+  image: string; // Data URL of the diagram
+  labels: DiagramLabel[];
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+
+type BlankState = 'idle' | 'correct' | 'wrong' | 'revealed';
+
+const BLANK_CLASSES: Record<BlankState, string> = {
+  idle: 'border-amber-400 bg-[#0B1021]/80 text-amber-200',
+  correct: 'border-[#34d399] bg-[#064e3b]/90 text-white',
+  wrong: 'border-[#f87171] bg-[#7f1d1d]/90 text-white',
+  revealed: 'border-amber-400 bg-amber-900/90 text-amber-100',
+};
+
+const INPUT_CLASSES: Record<BlankState, string> = {
+  idle: 'bg-[#1e293b] border-indigo-900/50 text-slate-200',
+  correct: 'bg-[#064e3b]/60 border-[#34d399] text-white',
+  wrong: 'bg-[#7f1d1d]/60 border-[#f87171] text-white',
+  revealed: 'bg-amber-900/40 border-amber-500/60 text-amber-100',
+};
+
+/**
+ * "Label the diagram": the image with its text labels masked out, and a word
+ * bank of the label texts to drag (or tap, then tap a blank) onto the blanks.
+ * Each blank can also be typed into. Checking grades every blank separately.
+ */
+const LabelExercise: React.FC<LabelExerciseProps> = ({ image, labels }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [answers, setAnswers] = useState<string[]>(() => labels.map(() => ''));
+  const [checked, setChecked] = useState(false);
+  const [revealed, setRevealed] = useState<boolean[] | null>(null); // Which blanks "Reveal All" filled in
+  const [selectedWord, setSelectedWord] = useState<string | null>(null); // Tapped in the word bank, waiting for a blank
+
+  // A new diagram or a re-analysis brings new labels: start over
+  const [labelsShown, setLabelsShown] = useState(labels);
+  if (labels !== labelsShown) {
+    setLabelsShown(labels);
+    setAnswers(labels.map(() => ''));
+    setRevealed(null);
+    setChecked(false);
+    setSelectedWord(null);
+  }
+
+  useEffect(() => {
+    const source = new Image();
+    source.onload = () => canvasRef.current && drawMaskedImage(canvasRef.current, source, labels.map(label => label.box));
+    source.src = image;
+  }, [image, labels]);
+
+  // The word bank in a stable shuffled order, so it doesn't list the labels top to bottom
+  const words = useMemo(
+    () => shuffledIndices(labels.length, image.slice(-64)).map(i => labels[i].text),
+    [image, labels]
+  );
+
+  // Blank while the answers are being reset for a new set of labels
+  const answerAt = (i: number) => answers[i] ?? '';
+  const isCorrect = (i: number) => normalizeFillIn(answerAt(i)) === normalizeFillIn(labels[i].text);
+  const correctCount = labels.filter((_, i) => isCorrect(i) && !revealed?.[i]).length;
+  const isFinished = revealed !== null || (checked && correctCount === labels.length);
+
+  const place = (i: number, text: string) => {
+    if (isFinished) return;
+    setChecked(false);
+    setAnswers(prev => prev.map((answer, j) => (j === i ? text : answer)));
+  };
+
+  const handleBlankClick = (i: number) => {
+    if (selectedWord !== null) {
+      place(i, selectedWord);
+      setSelectedWord(null);
+    } else {
+      document.getElementById(`label-blank-${i}`)?.focus();
+    }
+  };
+
+  const dropHandlers = (i: number) => ({
+    onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const text = e.dataTransfer.getData('text/plain');
+      if (text) place(i, text);
+    },
+  });
+
+  // Keeps the right answers and clears the rest for another go
+  const handleRetry = () => {
+    setAnswers(prev => prev.map((answer, i) => (isCorrect(i) ? answer : '')));
+    setChecked(false);
+  };
+
+  const handleReveal = () => {
+    setRevealed(labels.map((_, i) => !isCorrect(i)));
+    setAnswers(labels.map(label => label.text));
+    setChecked(true);
+  };
+
+  const handleStartOver = () => {
+    setAnswers(labels.map(() => ''));
+    setRevealed(null);
+    setChecked(false);
+  };
+
+  const blankState = (i: number): BlankState => {
+    if (revealed?.[i]) return 'revealed';
+    if (!checked) return 'idle';
+    if (isCorrect(i)) return 'correct';
+    return answerAt(i).trim() ? 'wrong' : 'idle';
+  };
+
+  return (
+    <div className="bg-[#0f172a] rounded-xl p-5 border border-indigo-900/50 shadow-2xl h-full flex flex-col relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-amber-600 via-yellow-500 to-amber-600"></div>
+
+      <div className="flex items-center justify-between mb-4 pb-3 border-b border-indigo-900/30 flex-shrink-0">
+        <h2 className="text-lg font-bold text-white tracking-tight">Label the Diagram</h2>
+        <div className="text-xs font-semibold text-indigo-200 bg-indigo-950 px-2.5 py-1 rounded-full border border-indigo-800 whitespace-nowrap" role="status">
+          {checked ? (
+            <><span className="text-amber-400">{correctCount}</span> / {labels.length} correct</>
+          ) : (
+            `${labels.length} labels`
+          )}
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto pr-2 custom-scrollbar">
+        {/* Masked image with a numbered drop target on each hidden label */}
+        <div className="relative mb-4 rounded-lg overflow-hidden bg-black/20">
+          <canvas ref={canvasRef} className="block w-full h-auto" role="img" aria-label="Diagram with its labels hidden" />
+          {labels.map((label, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => handleBlankClick(i)}
+              {...dropHandlers(i)}
+              aria-label={`Blank ${i + 1}${answerAt(i) ? `: ${answerAt(i)}` : ''}`}
+              title={answerAt(i) || `Blank ${i + 1}`}
+              style={{ left: percent(label.box.x), top: percent(label.box.y), width: percent(label.box.width), minHeight: percent(label.box.height) }}
+              className={`absolute flex items-center justify-center rounded border-2 border-dashed px-0.5 text-[10px] sm:text-xs font-bold leading-tight truncate transition-colors focus:outline-none focus:ring-2 focus:ring-amber-400 ${BLANK_CLASSES[blankState(i)]}`}
+            >
+              {answerAt(i) || i + 1}
+            </button>
+          ))}
+        </div>
+
+        {/* Word bank: drag a term onto a blank, or tap it and then tap the blank */}
+        {!isFinished && (
+          <div className="mb-4">
+            <span className="block text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-2">Word bank</span>
+            <div className="flex flex-wrap gap-1.5">
+              {words.map((word, i) => {
+                const used = answers.filter(answer => answer === word).length >= words.filter(w => w === word).length;
+                return (
+                  <button
+                    key={`${word}-${i}`}
+                    type="button"
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', word)}
+                    onClick={() => setSelectedWord(prev => (prev === word ? null : word))}
+                    aria-pressed={selectedWord === word}
+                    className={`px-2.5 py-1 rounded-full text-xs border cursor-grab transition-colors ${
+                      selectedWord === word
+                        ? 'bg-amber-500/30 border-amber-400 text-amber-100'
+                        : used
+                          ? 'bg-[#1e293b] border-indigo-900/30 text-slate-500'
+                          : 'bg-[#1e293b] border-indigo-900/50 text-slate-200 hover:border-amber-500/40'
+                    }`}
+                  >
+                    {word}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Typed answers, one per blank */}
+        <ol className="space-y-2">
+          {labels.map((_, i) => {
+            const state = blankState(i);
+            return (
+              <li key={i} className="flex items-center gap-2" {...dropHandlers(i)}>
+                <label htmlFor={`label-blank-${i}`} className="w-6 text-xs font-bold text-indigo-400 flex-shrink-0">{i + 1}.</label>
+                <input
+                  id={`label-blank-${i}`}
+                  type="text"
+                  value={answerAt(i)}
+                  onChange={(e) => place(i, e.target.value)}
+                  readOnly={isFinished}
+                  autoComplete="off"
+                  placeholder="Drag or type a label"
+                  className={`flex-grow min-w-0 text-sm px-3 py-2 rounded-lg border outline-none focus:border-amber-500/50 placeholder:text-slate-500 ${INPUT_CLASSES[state]}`}
+                />
+                {state === 'revealed' && <span className="text-xs text-amber-400 flex-shrink-0">revealed</span>}
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="mt-5 pt-3 border-t border-indigo-900/30 flex flex-wrap gap-2 pb-2">
+          {isFinished ? (
+            <button
+              type="button"
+              onClick={handleStartOver}
+              className="flex-1 py-2.5 px-3 bg-amber-600 hover:bg-amber-500 text-white rounded-xl font-bold text-sm transition-all border-b-4 border-amber-800 active:border-b-0 active:translate-y-1 focus:outline-none focus:ring-4 focus:ring-amber-500/50"
+            >
+              Start Over
+            </button>
+          ) : checked ? (
+            <button
+              type="button"
+              onClick={handleRetry}
+              className="flex-1 py-2.5 px-3 bg-amber-600 hover:bg-amber-500 text-white rounded-xl font-bold text-sm transition-all border-b-4 border-amber-800 active:border-b-0 active:translate-y-1 focus:outline-none focus:ring-4 focus:ring-amber-500/50"
+            >
+              Retry Wrong Labels
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setChecked(true)}
+              disabled={answers.every(answer => !answer.trim())}
+              className="flex-1 py-2.5 px-3 bg-amber-600 hover:bg-amber-500 text-white rounded-xl font-bold text-sm transition-all border-b-4 border-amber-800 active:border-b-0 active:translate-y-1 focus:outline-none focus:ring-4 focus:ring-amber-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Check Labels
+            </button>
+          )}
+          {!isFinished && (
+            <button
+              type="button"
+              onClick={handleReveal}
+              className="py-2.5 px-4 rounded-xl font-bold text-sm border bg-indigo-900/50 hover:bg-indigo-800 text-indigo-200 border-indigo-700 hover:border-indigo-500 transition-colors focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+            >
+              Reveal All
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelExercise;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryEntry } from '../types';
+import { listEntries, matchesQuery, renameEntry, deleteEntry } from '../services/libraryService';
+import { describeProfile } from '../services/audienceProfile';
+
+interface LibraryViewProps {
+  onOpen: (entry: LibraryEntry) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const LibraryView: React.FC<LibraryViewProps> = ({ onOpen }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listEntries()
+      .then(setEntries)
+      .catch((error) => {
+        console.error("Failed to load library", error);
+        setLoadError("Your saved diagrams couldn't be loaded in this browser.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startRename = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setDraftTitle(entry.title);
+    setPendingDeleteId(null);
+  };
+
+  const commitRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+    try {
+      const updated = await renameEntry(editingId, draftTitle);
+      setEntries(prev => prev.map(entry => entry.id === updated.id ? updated : entry));
+    } catch (error) {
+      console.error("Failed to rename library entry", error);
+    } finally {
+      setEditingId(null);
+    }
+  };
+
+  const confirmDelete = async (id: string) => {
+    try {
+      await deleteEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (error) {
+      console.error("Failed to delete library entry", error);
+    } finally {
+      setPendingDeleteId(null);
+    }
+  };
+
+  if (isLoading || (entries.length === 0 && !loadError)) {
+    return null;
+  }
+
+  const visibleEntries = entries.filter(entry => matchesQuery(entry, query));
+
+  return (
+    <section className="w-full mt-12 sm:mt-16" aria-labelledby="library-heading">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 id="library-heading" className="text-xs font-bold text-amber-500 uppercase tracking-widest flex items-center">
+          <span className="w-4 h-1 bg-amber-500 mr-3 inline-block rounded-full"></span>
+          Your Study Library
+          <span className="ml-2 text-indigo-300 normal-case tracking-normal font-medium">({entries.length})</span>
+        </h3>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by title or term..."
+          aria-label="Search library"
+          className="w-full sm:w-64 bg-[#1e293b] text-slate-200 text-sm px-4 py-2 rounded-lg border border-indigo-900/50 outline-none focus:border-amber-500/50 placeholder:text-slate-500"
+        />
+      </div>
+
+      {loadError && <p className="text-sm text-red-400">{loadError}</p>}
+
+      {!loadError && visibleEntries.length === 0 && (
+        <p className="text-sm text-slate-500 py-6 text-center">No saved diagrams match "{query}".</p>
+      )}
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {visibleEntries.map(entry => (
+          <li key={entry.id} className="flex items-center gap-3 bg-[#0f172a] border border-indigo-900/50 rounded-xl p-3 hover:border-amber-500/40 transition-colors">
+            <button
+              onClick={() => onOpen(entry)}
+              className="flex-shrink-0 w-16 h-16 rounded-lg overflow-hidden bg-black/30 border border-indigo-900/50 outline-none focus:ring-2 focus:ring-amber-500/50"
+              aria-label={`Open ${entry.title}`}
+            >
+              <img src={entry.image} alt="" className="w-full h-full object-cover" />
+            </button>
+
+            <div className="flex-grow min-w-0">
+              {editingId === entry.id ? (
+                <form onSubmit={commitRename} className="flex items-center gap-2">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    aria-label="New title"
+                    className="w-full bg-[#1e293b] text-slate-200 text-sm px-2 py-1 rounded border border-amber-500/50 outline-none"
+                  />
+                  <button type="submit" className="text-xs font-bold text-amber-400 hover:text-amber-300">Save</button>
+                </form>
+              ) : (
+                <button onClick={() => onOpen(entry)} className="block text-left w-full outline-none focus:text-amber-400">
+                  <p className="text-sm font-semibold text-slate-100 truncate">{entry.title}</p>
+                </button>
+              )}
+              <p className="text-[11px] text-slate-500 mt-1">
+                {formatDate(entry.updatedAt)} · {entry.quizzes.length} {entry.quizzes.length === 1 ? 'quiz' : 'quizzes'} · {entry.attempts.length} {entry.attempts.length === 1 ? 'attempt' : 'attempts'}
+              </p>
+              {entry.result.profile && (
+                <p className="text-[11px] text-indigo-300/70 mt-0.5 truncate">{describeProfile(entry.result.profile)}</p>
+              )}
+            </div>
+
+            <div className="flex-shrink-0 flex items-center gap-1">
+              {pendingDeleteId === entry.id ? (
+                <>
+                  <button onClick={() => confirmDelete(entry.id)} className="text-xs font-bold text-red-400 hover:text-red-300 px-2 py-1">Delete</button>
+                  <button onClick={() => setPendingDeleteId(null)} className="text-xs text-slate-400 hover:text-slate-200 px-2 py-1">Keep</button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => startRename(entry)}
+                    aria-label={`Rename ${entry.title}`}
+                    className="p-1.5 text-indigo-400 hover:text-amber-400 transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => { setPendingDeleteId(entry.id); setEditingId(null); }}
+                    aria-label={`Delete ${entry.title}`}
+                    className="p-1.5 text-indigo-400 hover:text-red-400 transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default LibraryView;
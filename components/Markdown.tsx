@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, inlineText, parseMarkdown } from '../services/markdown';
+import MathFormula from './MathFormula';
+
+// 'article' is the explanation panel; 'compact' fits chat bubbles and quiz feedback
+export type MarkdownVariant = 'article' | 'compact';
+
+export interface MarkdownRenderOptions {
+  variant: MarkdownVariant;
+  // Replaces the default <strong>, e.g. to link key terms to their hotspots
+  renderStrong?: (text: string, key: React.Key) => React.ReactNode;
+  // An id for a list item, e.g. so a key term's definition can be scrolled to
+  listItemId?: (item: MarkdownBlock[]) => string | undefined;
+}
+
+const STYLES = {
+  article: {
+    h2: 'text-2xl md:text-3xl font-bold text-white mt-10 mb-6 border-b border-indigo-900/50 pb-3 flex items-center',
+    h3: 'text-xl font-bold text-amber-400 mt-8 mb-4 flex items-center uppercase tracking-wide text-sm',
+    p: 'text-slate-300 leading-relaxed mb-6 text-lg',
+    ul: 'space-y-4 mb-8',
+    li: 'scroll-mt-8 flex items-start pl-3 border-l-4 border-indigo-900/50 hover:border-amber-500 transition-colors group bg-[#0B1021] p-3 rounded-r-lg',
+    ol: 'space-y-4 mb-8 ml-1',
+    oli: 'scroll-mt-8 flex items-start bg-[#0B1021] p-3 rounded-lg border border-indigo-900/20',
+    itemBody: 'text-slate-200 leading-relaxed text-lg min-w-0 flex-grow',
+    nestedList: 'mt-3 space-y-2',
+    strong: 'text-amber-200 font-bold bg-amber-900/30 px-1 rounded-sm border-b border-amber-500/30',
+    code: 'font-mono text-[0.9em] bg-indigo-950/70 text-amber-100 px-1 py-0.5 rounded',
+    pre: 'bg-[#0B1021] border border-indigo-900/30 rounded-lg p-4 overflow-x-auto mb-6 text-sm text-slate-200',
+    blockquote: 'border-l-4 border-amber-500/50 pl-4 italic text-slate-400 mb-6',
+    table: 'w-full text-left border-collapse text-base',
+    tableWrap: 'overflow-x-auto mb-6',
+    th: 'border-b border-indigo-700 px-3 py-2 text-amber-300 font-semibold',
+    td: 'border-b border-indigo-900/40 px-3 py-2 text-slate-300',
+    hr: 'border-indigo-900/50 my-8',
+  },
+  compact: {
+    h2: 'font-bold text-white mt-3 mb-1 first:mt-0',
+    h3: 'font-bold text-amber-300 mt-3 mb-1 first:mt-0',
+    p: 'mb-2 last:mb-0',
+    ul: 'space-y-1 mb-2 last:mb-0',
+    li: 'flex items-start',
+    ol: 'space-y-1 mb-2 last:mb-0',
+    oli: 'flex items-start',
+    itemBody: 'min-w-0 flex-grow',
+    nestedList: 'mt-1 space-y-1',
+    strong: 'font-semibold text-white',
+    code: 'font-mono text-[0.9em] bg-black/30 px-1 rounded',
+    pre: 'bg-black/30 rounded p-2 overflow-x-auto mb-2 last:mb-0 text-xs',
+    blockquote: 'border-l-2 border-amber-500/50 pl-3 italic opacity-80 mb-2 last:mb-0',
+    table: 'w-full text-left border-collapse text-xs',
+    tableWrap: 'overflow-x-auto mb-2 last:mb-0',
+    th: 'border-b border-indigo-700 px-2 py-1 font-semibold',
+    td: 'border-b border-indigo-900/40 px-2 py-1',
+    hr: 'border-indigo-900/50 my-2',
+  },
+};
+
+const renderInlines = (inlines: MarkdownInline[], options: MarkdownRenderOptions): React.ReactNode[] =>
+  inlines.map((inline, i) => {
+    const styles = STYLES[options.variant];
+    switch (inline.type) {
+      case 'text':
+        return <React.Fragment key={i}>{inline.value}</React.Fragment>;
+      case 'strong':
+        return options.renderStrong
+          ? <React.Fragment key={i}>{options.renderStrong(inlineText(inline.children), i)}</React.Fragment>
+          : <strong key={i} className={styles.strong}>{renderInlines(inline.children, options)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInlines(inline.children, options)}</em>;
+      case 'delete':
+        return <del key={i}>{renderInlines(inline.children, options)}</del>;
+      case 'code':
+        return <code key={i} className={styles.code}>{inline.value}</code>;
+      case 'math':
+        return <MathFormula key={i} tex={inline.value} />;
+      case 'link':
+        return (
+          <a key={i} href={inline.href} target="_blank" rel="noopener noreferrer" className="text-amber-300 underline hover:text-amber-200">
+            {renderInlines(inline.children, options)}
+          </a>
+        );
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+
+// Items of a tight list hold one paragraph each; show it without paragraph spacing
+const renderItemBody = (item: MarkdownBlock[], options: MarkdownRenderOptions, depth: number) =>
+  item.map((block, i) =>
+    block.type === 'paragraph'
+      ? <div key={i} className={i > 0 ? 'mt-2' : undefined}>{renderInlines(block.children, options)}</div>
+      : renderBlock(block, i, options, depth + 1)
+  );
+
+const renderList = (block: Extract<MarkdownBlock, { type: 'list' }>, key: React.Key, options: MarkdownRenderOptions, depth: number) => {
+  const styles = STYLES[options.variant];
+  // Nested lists drop the card styling so they read as part of their item
+  const nested = depth > 0 || options.variant === 'compact';
+  const items = block.items.map((item, i) => (
+    <li
+      key={i}
+      id={depth === 0 ? options.listItemId?.(item) : undefined}
+      className={depth > 0 ? 'flex items-start' : block.ordered ? styles.oli : styles.li}
+    >
+      {block.ordered ? (
+        <span className={nested ? 'font-mono mr-2 opacity-80' : 'text-amber-500 font-mono font-bold mr-4 mt-0.5 text-xl opacity-80'}>
+          {block.start + i}.
+        </span>
+      ) : (
+        <span className={nested ? 'text-amber-500 mr-2 select-none' : 'text-amber-500 mr-3 mt-1.5 transition-transform group-hover:scale-110 select-none text-lg'} aria-hidden="true">•</span>
+      )}
+      <div className={styles.itemBody}>{renderItemBody(item, options, depth)}</div>
+    </li>
+  ));
+  const className = depth > 0 ? styles.nestedList : block.ordered ? styles.ol : styles.ul;
+  return block.ordered
+    ? <ol key={key} start={block.start} className={className}>{items}</ol>
+    : <ul key={key} className={className}>{items}</ul>;
+};
+
+const renderBlock = (block: MarkdownBlock, key: React.Key, options: MarkdownRenderOptions, depth = 0): React.ReactNode => {
+  const styles = STYLES[options.variant];
+  switch (block.type) {
+    case 'heading':
+      return block.depth <= 2 ? (
+        <h2 key={key} className={styles.h2}>{renderInlines(block.children, options)}</h2>
+      ) : (
+        <h3 key={key} className={styles.h3}>
+          {options.variant === 'article' && <span className="w-4 h-1 bg-amber-500 mr-3 inline-block rounded-full"></span>}
+          {renderInlines(block.children, options)}
+        </h3>
+      );
+    case 'paragraph':
+      return <p key={key} className={styles.p}>{renderInlines(block.children, options)}</p>;
+    case 'list':
+      return renderList(block, key, options, depth);
+    case 'code':
+      return <pre key={key} className={styles.pre}><code>{block.value}</code></pre>;
+    case 'math':
+      return <MathFormula key={key} tex={block.value} display />;
+    case 'blockquote':
+      return <blockquote key={key} className={styles.blockquote}>{block.children.map((child, i) => renderBlock(child, i, options, depth))}</blockquote>;
+    case 'table': {
+      const [header = [], ...rows] = block.rows;
+      const align = (column: number) => block.align[column] ?? undefined;
+      return (
+        <div key={key} className={styles.tableWrap}>
+          <table className={styles.table}>
+            <thead>
+              <tr>{header.map((cell, c) => <th key={c} className={styles.th} style={{ textAlign: align(c) }}>{renderInlines(cell, options)}</th>)}</tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r}>{row.map((cell, c) => <td key={c} className={styles.td} style={{ textAlign: align(c) }}>{renderInlines(cell, options)}</td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+    case 'rule':
+      return <hr key={key} className={styles.hr} />;
+  }
+};
+
+/**
+ * Markdown as React elements in the app's styling. A plain function rather
+ * than a component so callers can thread per-render state, such as which
+ * terms already have an anchor, through the callbacks.
+ */
+export const renderMarkdown = (blocks: MarkdownBlock[], options: MarkdownRenderOptions): React.ReactNode[] =>
+  blocks.map((block, i) => renderBlock(block, i, options));
+
+interface MarkdownProps {
+  text: string;
+  variant?: MarkdownVariant;
+}
+
+/** Renders model-written Markdown, e.g. a tutor reply or a quiz explanation. */
+const Markdown: React.FC<MarkdownProps> = ({ text, variant }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <>{renderMarkdown(blocks, { variant: variant ?? 'compact' })}</>;
+};
+
+export default Markdown;
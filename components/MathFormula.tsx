@@ -0,0 +1,34 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { loadKatex, loadedKatex, renderMath } from '../services/math';
+
+interface MathFormulaProps {
+  tex: string;
+  display?: boolean; // Centered on its own line rather than inline with text
+}
+
+/** A TeX formula, shown as its source until KaTeX has loaded (or if it can't). */
+const MathFormula: React.FC<MathFormulaProps> = ({ tex, display = false }) => {
+  const [katex, setKatex] = useState(loadedKatex);
+
+  useEffect(() => {
+    if (katex) return;
+    let cancelled = false;
+    loadKatex().then(module => !cancelled && setKatex(() => module)).catch(() => {});
+    return () => { cancelled = true; };
+  }, [katex]);
+
+  const html = useMemo(() => (katex ? renderMath(katex, tex, display) : null), [katex, tex, display]);
+  // Always a span, since formulas also appear inside paragraphs and buttons
+  if (!html) {
+    return <span className={`font-mono text-[0.9em] ${display ? 'block my-4 text-center' : ''}`}>{tex}</span>;
+  }
+  return (
+    <span
+      className={display ? 'block my-4 overflow-x-auto overflow-y-hidden' : undefined}
+      // KaTeX output, rendered with trust off so it holds no links or scripts
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MathFormula;
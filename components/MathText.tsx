@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import { splitMath } from '../services/math';
+import MathFormula from './MathFormula';
+
+/** Plain text with any `$...$` formulas in it typeset, e.g. a quiz option. */
+const MathText: React.FC<{ text: string }> = ({ text }) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.type === 'math'
+          ? <MathFormula key={i} tex={segment.value} display={segment.display} />
+          : <React.Fragment key={i}>{segment.value}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default MathText;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { BoundingBox, ImageOutputSettings } from '../types';
+import { PAGE_RENDER_SIZE, PdfDocument, THUMBNAIL_SIZE, openPdf, renderPage } from '../services/pdfService';
+import { NO_EDITS, processImage } from '../services/imageUtils';
+import RegionSelector from './RegionSelector';
+
+interface PdfPagePickerProps {
+  file: File;
+  output: ImageOutputSettings;
+  onCancel: () => void;
+  onConfirm: (images: string[]) => void; // One data URL per selected page or region, in page order
+}
+
+// Each selection is a separate model call, so keep a stray "select all" affordable
+const MAX_SELECTED = 12;
+// Wide enough to drag an accurate crop, cheaper than the full-size render
+const EDITOR_SIZE = 1200;
+
+/**
+ * Thumbnails of every page of a PDF for choosing what to analyze. Pages can
+ * be used whole or cropped to a region, which suits slides that put a
+ * diagram next to bullet points.
+ */
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, output, onCancel, onConfirm }) => {
+  const [doc, setDoc] = useState<PdfDocument | null>(null);
+  const [thumbnails, setThumbnails] = useState<(string | undefined)[]>([]);
+  const [selected, setSelected] = useState<number[]>([]); // Page numbers, from 1
+  const [regions, setRegions] = useState<Record<number, BoundingBox>>({});
+  const [editing, setEditing] = useState<{ page: number; image: string | null } | null>(null);
+  const [preparing, setPreparing] = useState<number | null>(null); // Pages rendered so far on confirm
+  const [error, setError] = useState<string | null>(null);
+
+  // Open the document, then fill in thumbnails one page at a time so the first ones show quickly
+  useEffect(() => {
+    let cancelled = false;
+    let opened: PdfDocument | null = null;
+
+    (async () => {
+      try {
+        opened = await openPdf(file);
+        if (cancelled) return;
+        setDoc(opened);
+        setThumbnails(new Array(opened.numPages).fill(undefined));
+        if (opened.numPages === 1) setSelected([1]);
+
+        for (let page = 1; page <= opened.numPages && !cancelled; page++) {
+          const thumbnail = await renderPage(opened, page, THUMBNAIL_SIZE);
+          if (!cancelled) setThumbnails(prev => prev.map((t, i) => (i === page - 1 ? thumbnail : t)));
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Could not open that PDF.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [file]);
+
+  const togglePage = (page: number) => {
+    setSelected(prev =>
+      prev.includes(page)
+        ? prev.filter(p => p !== page)
+        : prev.length < MAX_SELECTED ? [...prev, page].sort((a, b) => a - b) : prev
+    );
+  };
+
+  const openEditor = async (page: number) => {
+    if (!doc) return;
+    setEditing({ page, image: null });
+    try {
+      const image = await renderPage(doc, page, EDITOR_SIZE);
+      setEditing(prev => (prev?.page === page ? { page, image } : prev));
+    } catch (err) {
+      console.error("Failed to render PDF page", err);
+      setEditing(null);
+    }
+  };
+
+  const setRegion = (page: number, region: BoundingBox | null) => {
+    setRegions(prev => {
+      const { [page]: _, ...rest } = prev;
+      return region ? { ...rest, [page]: region } : rest;
+    });
+    if (region && !selected.includes(page)) togglePage(page);
+  };
+
+  const handleConfirm = async () => {
+    if (!doc || selected.length === 0) return;
+    setPreparing(0);
+    try {
+      const images: string[] = [];
+      for (const page of selected) {
+        // Rendered large so a small crop keeps its detail, then scaled and compressed like any upload
+        const rendered = await renderPage(doc, page, Math.max(PAGE_RENDER_SIZE, output.maxSide));
+        images.push(await processImage(rendered, { ...NO_EDITS, crop: regions[page] ?? null }, output));
+        setPreparing(images.length);
+      }
+      onConfirm(images);
+    } catch (err) {
+      console.error("Failed to render PDF pages", err);
+      setError('Some pages could not be rendered. Try selecting fewer pages.');
+      setPreparing(null);
+    }
+  };
+
+  const pageCount = thumbnails.length;
+
+  return (
+    <div className="w-full max-w-5xl mt-4 sm:mt-8 bg-[#0f172a] rounded-xl p-4 sm:p-6 border border-indigo-900/50 shadow-2xl relative overflow-hidden animate-in fade-in duration-500">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-amber-600 via-yellow-500 to-amber-600"></div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 pb-3 border-b border-indigo-900/30">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-white tracking-tight truncate" title={file.name}>{file.name}</h2>
+          <p className="text-xs text-indigo-300 mt-0.5">
+            {pageCount
+              ? `Choose up to ${MAX_SELECTED} pages. Each page or cropped region is analyzed and saved separately.`
+              : 'Opening PDF...'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-indigo-300 hover:text-white rounded-lg border border-indigo-800 hover:border-indigo-600 hover:bg-indigo-950/50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={selected.length === 0 || preparing !== null}
+            className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg font-bold text-sm transition-colors focus:outline-none focus:ring-4 focus:ring-amber-500/50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {preparing !== null
+              ? `Preparing ${Math.min(preparing + 1, selected.length)} of ${selected.length}...`
+              : `Analyze ${selected.length || ''} ${selected.length === 1 ? 'Page' : 'Pages'}`}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-300 bg-red-950/40 border border-red-900/50 rounded-lg px-3 py-2" role="alert">{error}</p>
+      )}
+
+      {editing ? (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-bold text-amber-400">Page {editing.page}: select a region</h3>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="px-3 py-1.5 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors"
+            >
+              Done
+            </button>
+          </div>
+          {editing.image ? (
+            <div className="max-w-3xl mx-auto">
+              <RegionSelector
+                image={editing.image}
+                alt={`Page ${editing.page}`}
+                region={regions[editing.page] ?? null}
+                onChange={region => setRegion(editing.page, region)}
+              />
+            </div>
+          ) : (
+            <div className="h-64 flex items-center justify-center text-sm text-indigo-300 animate-pulse">Rendering page...</div>
+          )}
+        </div>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 max-h-[65vh] overflow-y-auto pr-1 custom-scrollbar">
+          {thumbnails.map((thumbnail, i) => {
+            const page = i + 1;
+            const isSelected = selected.includes(page);
+            const region = regions[page];
+            return (
+              <li key={page} className="flex flex-col">
+                <button
+                  type="button"
+                  onClick={() => togglePage(page)}
+                  aria-pressed={isSelected}
+                  aria-label={`Page ${page}`}
+                  className={`relative rounded-lg overflow-hidden border-2 bg-white aspect-[3/4] flex items-center justify-center transition-all focus:outline-none focus:ring-2 focus:ring-amber-400 ${
+                    isSelected ? 'border-amber-400 shadow-lg shadow-amber-500/20' : 'border-indigo-900/50 hover:border-amber-500/40'
+                  }`}
+                >
+                  {thumbnail ? (
+                    <span className="relative block">
+                      <img src={thumbnail} alt="" className="block max-w-full max-h-full object-contain" />
+                      {region && (
+                        <span
+                          style={{ left: `${region.x * 100}%`, top: `${region.y * 100}%`, width: `${region.width * 100}%`, height: `${region.height * 100}%` }}
+                          className="absolute border-2 border-amber-400 bg-amber-400/20"
+                        />
+                      )}
+                    </span>
+                  ) : (
+                    <span className="w-full h-full bg-slate-200 animate-pulse" />
+                  )}
+                  {isSelected && (
+                    <span className="absolute top-1.5 right-1.5 w-6 h-6 rounded-full bg-amber-500 text-white flex items-center justify-center shadow">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                      </svg>
+                    </span>
+                  )}
+                </button>
+                <div className="flex items-center justify-between mt-1 text-xs">
+                  <span className="text-indigo-300">Page {page}</span>
+                  <button
+                    type="button"
+                    onClick={() => openEditor(page)}
+                    disabled={!doc || preparing !== null}
+                    className="font-medium text-amber-400 hover:text-amber-300 disabled:opacity-50 transition-colors"
+                  >
+                    {region ? 'Edit crop' : 'Crop'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PdfPagePicker;
@@ -0,0 +1,307 @@
+import React, { useMemo, useState } from 'react';
+import { FillInQuestion, MatchingQuestion, OrderingQuestion, QuizAnswer, QuizQuestion } from '../types';
+import { gradeAnswer, normalizeFillIn, orderedPositions, shuffledIndices } from '../services/questionTypes';
+import MathText from './MathText';
+
+interface QuestionResponseProps {
+  question: QuizQuestion;
+  answer: QuizAnswer | null; // null until the student commits an answer
+  onAnswer: (answer: QuizAnswer) => void;
+}
+
+// Shared look for answer rows: green for right, red for wrong, slate for untouched
+const CORRECT_ROW = 'bg-[#064e3b] border-[#34d399] text-white';
+const WRONG_ROW = 'bg-[#7f1d1d] border-[#f87171] text-white';
+const IDLE_ROW = 'bg-[#1e293b] border-indigo-900/50 text-slate-200';
+
+const CheckIcon = () => (
+  <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+  </svg>
+);
+
+const CrossIcon = () => (
+  <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+// Fill-in, ordering and matching answers are built up first, then submitted
+const SubmitButton: React.FC<{ disabled?: boolean; onClick: () => void }> = ({ disabled = false, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    className="mt-3 w-full py-2.5 px-3 rounded-xl font-bold text-sm border bg-indigo-900 hover:bg-indigo-800 text-white border-indigo-700 hover:border-indigo-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+  >
+    Check Answer
+  </button>
+);
+
+/** Lettered options for multiple choice and true/false; picking one answers the question. */
+const ChoiceList: React.FC<{
+  options: string[];
+  correctIndex: number;
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+}> = ({ options, correctIndex, selectedIndex, onSelect }) => {
+  const isAnswered = selectedIndex !== null;
+
+  return (
+    <div className="space-y-2.5" role="radiogroup" aria-labelledby="question-heading">
+      {options.map((option, index) => {
+        let buttonClass = "w-full text-left p-3 rounded-lg border transition-all duration-200 group relative overflow-hidden flex items-center outline-none focus:ring-4 focus:ring-amber-500/50 focus:border-amber-400 ";
+        let statusIcon = null;
+        let ariaLabel = `Option ${String.fromCharCode(65 + index)}: ${option}`;
+
+        if (isAnswered) {
+          if (index === correctIndex) {
+            // Correct Answer
+            buttonClass += "bg-[#064e3b] border-[#34d399] text-white shadow-[0_0_15px_rgba(52,211,153,0.3)] ";
+            statusIcon = <div className="ml-auto text-[#34d399]"><CheckIcon /></div>;
+            ariaLabel += " (Correct Answer)";
+          } else if (index === selectedIndex) {
+            // User Selected Incorrectly
+            buttonClass += "bg-[#7f1d1d] border-[#f87171] text-white ";
+            statusIcon = <div className="ml-auto text-[#f87171]"><CrossIcon /></div>;
+            ariaLabel += " (Incorrect Selection)";
+          } else {
+            // Unselected and not correct
+            buttonClass += "bg-[#1e293b] border-transparent text-slate-500 opacity-50 cursor-not-allowed ";
+          }
+        } else {
+          // Not Answered Yet
+          buttonClass += "bg-[#1e293b] border-indigo-900/50 text-slate-200 hover:bg-[#25324d] hover:border-amber-500/50 hover:shadow-[0_0_10px_rgba(245,158,11,0.1)] cursor-pointer ";
+        }
+
+        return (
+          <button
+            key={index}
+            role="radio"
+            aria-checked={isAnswered ? (index === selectedIndex) : false}
+            onClick={() => !isAnswered && onSelect(index)}
+            disabled={isAnswered}
+            aria-disabled={isAnswered}
+            aria-label={ariaLabel}
+            className={buttonClass}
+          >
+            <span className={`w-6 h-6 rounded-full border-2 flex-shrink-0 flex items-center justify-center mr-3 text-xs font-bold transition-colors ${
+              isAnswered && index === correctIndex ? 'border-[#34d399] bg-[#34d399] text-black' :
+              isAnswered && index === selectedIndex ? 'border-[#f87171] bg-[#f87171] text-white' :
+              'border-indigo-700 text-indigo-400 group-hover:border-amber-400 group-hover:text-amber-400'
+            }`} aria-hidden="true">
+              {String.fromCharCode(65 + index)}
+            </span>
+            <span className="text-sm md:text-base leading-tight"><MathText text={option} /></span>
+            {statusIcon}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const FillInResponse: React.FC<{ question: FillInQuestion; answer: string | null; onAnswer: (answer: string) => void }> = ({
+  question,
+  answer,
+  onAnswer,
+}) => {
+  const [draft, setDraft] = useState('');
+
+  if (answer !== null) {
+    const correct = gradeAnswer(question, answer) === 1;
+    return (
+      <div className="space-y-2">
+        <div className={`p-3 rounded-lg border flex items-center gap-3 ${correct ? CORRECT_ROW : WRONG_ROW}`}>
+          <span className="text-sm md:text-base">{answer}</span>
+          <span className={`ml-auto ${correct ? 'text-[#34d399]' : 'text-[#f87171]'}`}>{correct ? <CheckIcon /> : <CrossIcon />}</span>
+        </div>
+        {!correct && (
+          <p className="text-sm text-slate-300">
+            Accepted: <span className="text-[#34d399] font-medium">{question.acceptedAnswers.join(' / ')}</span>
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (normalizeFillIn(draft)) onAnswer(draft.trim());
+      }}
+    >
+      <label htmlFor="fill-in-answer" className="sr-only">Your answer</label>
+      <input
+        id="fill-in-answer"
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Type the missing word or phrase"
+        autoComplete="off"
+        className={`w-full p-3 rounded-lg border outline-none focus:border-amber-500/50 placeholder:text-slate-500 ${IDLE_ROW}`}
+      />
+      <SubmitButton disabled={!normalizeFillIn(draft)} onClick={() => onAnswer(draft.trim())} />
+    </form>
+  );
+};
+
+const OrderingResponse: React.FC<{ question: OrderingQuestion; answer: number[] | null; onAnswer: (answer: number[]) => void }> = ({
+  question,
+  answer,
+  onAnswer,
+}) => {
+  const [order, setOrder] = useState(() => shuffledIndices(question.items.length, question.question));
+
+  if (answer !== null) {
+    const inOrder = orderedPositions(answer);
+    return (
+      <div className="space-y-2">
+        <ol className="space-y-2">
+          {answer.map((item, position) => (
+            <li key={item} className={`p-3 rounded-lg border flex items-center gap-3 ${inOrder[position] ? CORRECT_ROW : WRONG_ROW}`}>
+              <span className="w-6 text-xs font-bold text-slate-300">{position + 1}.</span>
+              <span className="text-sm md:text-base"><MathText text={question.items[item]} /></span>
+              <span className={`ml-auto ${inOrder[position] ? 'text-[#34d399]' : 'text-[#f87171]'}`}>
+                {inOrder[position] ? <CheckIcon /> : <CrossIcon />}
+              </span>
+            </li>
+          ))}
+        </ol>
+        {inOrder.includes(false) && (
+          <p className="text-sm text-slate-300">
+            Correct order: <span className="text-[#34d399] font-medium"><MathText text={question.items.join(' → ')} /></span>
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const move = (position: number, offset: -1 | 1) => {
+    const next = [...order];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    setOrder(next);
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-slate-400 mb-2">Use the arrows to put the steps in order, first at the top.</p>
+      <ol className="space-y-2">
+        {order.map((item, position) => (
+          <li key={item} className={`p-2 pl-3 rounded-lg border flex items-center gap-3 ${IDLE_ROW}`}>
+            <span className="w-6 text-xs font-bold text-indigo-400">{position + 1}.</span>
+            <span className="text-sm md:text-base flex-grow"><MathText text={question.items[item]} /></span>
+            <span className="flex flex-shrink-0">
+              {([-1, 1] as const).map(offset => {
+                const blocked = position + offset < 0 || position + offset >= order.length;
+                return (
+                  <button
+                    key={offset}
+                    type="button"
+                    onClick={() => move(position, offset)}
+                    disabled={blocked}
+                    aria-label={`Move "${question.items[item]}" ${offset < 0 ? 'up' : 'down'}`}
+                    className="p-1.5 rounded text-indigo-300 hover:text-amber-400 disabled:opacity-30 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={offset < 0 ? 'M5 15l7-7 7 7' : 'M19 9l-7 7-7-7'} />
+                    </svg>
+                  </button>
+                );
+              })}
+            </span>
+          </li>
+        ))}
+      </ol>
+      <SubmitButton onClick={() => onAnswer(order)} />
+    </div>
+  );
+};
+
+const MatchingResponse: React.FC<{ question: MatchingQuestion; answer: number[] | null; onAnswer: (answer: number[]) => void }> = ({
+  question,
+  answer,
+  onAnswer,
+}) => {
+  // Definitions are offered in a shuffled order so their position doesn't give the match away
+  const definitionOrder = useMemo(() => shuffledIndices(question.pairs.length, question.question), [question]);
+  const [choices, setChoices] = useState<number[]>(() => question.pairs.map(() => -1));
+
+  if (answer !== null) {
+    return (
+      <ul className="space-y-2">
+        {question.pairs.map((pair, i) => {
+          const correct = answer[i] === i;
+          return (
+            <li key={pair.term} className={`p-3 rounded-lg border ${correct ? CORRECT_ROW : WRONG_ROW}`}>
+              <div className="flex items-center gap-3">
+                <span className="text-sm md:text-base">
+                  <strong><MathText text={pair.term} /></strong>: <MathText text={question.pairs[answer[i]]?.definition ?? '(no answer)'} />
+                </span>
+                <span className={`ml-auto ${correct ? 'text-[#34d399]' : 'text-[#f87171]'}`}>{correct ? <CheckIcon /> : <CrossIcon />}</span>
+              </div>
+              {!correct && <p className="mt-1 text-sm text-[#34d399]"><MathText text={pair.definition} /></p>}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  return (
+    <div>
+      <div className="space-y-2">
+        {question.pairs.map((pair, i) => (
+          <div key={pair.term} className={`p-3 rounded-lg border ${IDLE_ROW}`}>
+            <label htmlFor={`match-${i}`} className="block text-sm font-bold text-white mb-1.5"><MathText text={pair.term} /></label>
+            <select
+              id={`match-${i}`}
+              value={choices[i]}
+              onChange={(e) => setChoices(prev => prev.map((choice, j) => (j === i ? Number(e.target.value) : choice)))}
+              className="w-full bg-[#0B1021] text-slate-200 text-sm px-3 py-2 rounded-lg border border-indigo-900/50 outline-none focus:border-amber-500/50"
+            >
+              <option value={-1} disabled>Choose a definition…</option>
+              {definitionOrder.map(index => (
+                <option key={index} value={index}>{question.pairs[index].definition}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <SubmitButton disabled={choices.includes(-1)} onClick={() => onAnswer(choices)} />
+    </div>
+  );
+};
+
+/** The answer area for a quiz question, in the form its type needs. */
+const QuestionResponse: React.FC<QuestionResponseProps> = ({ question, answer, onAnswer }) => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return (
+        <ChoiceList
+          options={question.options}
+          correctIndex={question.correctAnswerIndex}
+          selectedIndex={typeof answer === 'number' ? answer : null}
+          onSelect={onAnswer}
+        />
+      );
+    case 'true-false':
+      return (
+        <ChoiceList
+          options={['True', 'False']}
+          correctIndex={question.answer ? 0 : 1}
+          selectedIndex={typeof answer === 'boolean' ? (answer ? 0 : 1) : null}
+          onSelect={(index) => onAnswer(index === 0)}
+        />
+      );
+    case 'fill-in':
+      return <FillInResponse question={question} answer={typeof answer === 'string' ? answer : null} onAnswer={onAnswer} />;
+    case 'ordering':
+      return <OrderingResponse question={question} answer={Array.isArray(answer) ? answer : null} onAnswer={onAnswer} />;
+    case 'matching':
+      return <MatchingResponse question={question} answer={Array.isArray(answer) ? answer : null} onAnswer={onAnswer} />;
+  }
+};
+
+export default QuestionResponse;
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QuizQuestion } from '../types';
+import { EXPORT_FORMATS, ExportFormat, downloadFile, exportQuestions } from '../services/quizExport';
+import { IMPORT_ACCEPT, importQuestions } from '../services/quizImport';
+
+interface QuizExportMenuProps {
+  quiz: QuizQuestion[];
+  bank: QuizQuestion[];
+  title: string;
+  image: string | null;
+  onImport: (questions: QuizQuestion[]) => void; // Shown as a new quiz for this diagram
+}
+
+type Notice = { tone: 'info' | 'error'; text: string; details?: string[] };
+
+/** Downloads the quiz or question bank for an LMS or flashcard app, and loads edited GIFT/QTI files back. */
+const QuizExportMenu: React.FC<QuizExportMenuProps> = ({ quiz, bank, title, image, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<'quiz' | 'bank'>('quiz');
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && setIsOpen(false);
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const questions = scope === 'quiz' ? quiz : bank;
+
+  const handleExport = (format: ExportFormat) => {
+    const file = exportQuestions(format, questions, { title, image });
+    downloadFile(file);
+    setNotice(
+      file.skipped > 0
+        ? { tone: 'info', text: `${file.skipped} ${file.skipped === 1 ? 'question was' : 'questions were'} left out: ${EXPORT_FORMATS[format].label} has no matching question type.` }
+        : null
+    );
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const { questions: imported, skipped } = await importQuestions(file);
+      if (imported.length > 0) onImport(imported);
+      setNotice({
+        tone: imported.length > 0 ? 'info' : 'error',
+        text: imported.length > 0
+          ? `Imported ${imported.length} ${imported.length === 1 ? 'question' : 'questions'} as a new quiz.${skipped.length ? ` ${skipped.length} could not be used.` : ''}`
+          : 'None of the questions in that file could be used.',
+        details: skipped,
+      });
+    } catch (err: any) {
+      setNotice({ tone: 'error', text: err.message || 'Could not read that file.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider border bg-[#0f172a] border-indigo-900/50 text-slate-400 hover:text-slate-200 transition-colors"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-w-[calc(100vw-2rem)] z-30 bg-[#0f172a] border border-indigo-800 rounded-xl shadow-2xl p-4">
+          <div role="radiogroup" aria-label="Questions to export" className="grid grid-cols-2 gap-1 mb-3">
+            {(['quiz', 'bank'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={scope === option}
+                onClick={() => setScope(option)}
+                className={`px-2 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                  scope === option
+                    ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                    : 'bg-[#1e293b] border-indigo-900/50 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {option === 'quiz' ? `This quiz (${quiz.length})` : `Question bank (${bank.length})`}
+              </button>
+            ))}
+          </div>
+
+          <ul className="space-y-1">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+              <li key={format}>
+                <button
+                  type="button"
+                  onClick={() => handleExport(format)}
+                  disabled={questions.length === 0}
+                  className="w-full text-left px-3 py-2 rounded-lg hover:bg-indigo-950/70 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <span className="block text-sm font-medium text-slate-200">{EXPORT_FORMATS[format].label}</span>
+                  <span className="block text-xs text-indigo-300">{EXPORT_FORMATS[format].description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-3 pt-3 border-t border-indigo-900/30">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="w-full px-3 py-2 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : 'Import GIFT or QTI File'}
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleImportFile} accept={IMPORT_ACCEPT} className="hidden" />
+          </div>
+
+          {notice && (
+            <div className={`mt-3 text-xs rounded-lg px-3 py-2 border ${notice.tone === 'error' ? 'text-red-300 bg-red-950/40 border-red-900/50' : 'text-indigo-200 bg-indigo-950/60 border-indigo-800'}`} role="status">
+              {notice.text}
+              {notice.details && notice.details.length > 0 && (
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-indigo-300">Details</summary>
+                  <ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                    {notice.details.map((detail, i) => <li key={i}>{detail}</li>)}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizExportMenu;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { QuestionDifficulty, QuizSettings } from '../types';
+import { QUESTION_DIFFICULTIES, QUIZ_COUNT_RANGE } from '../services/quizSettings';
+
+interface QuizSettingsPanelProps {
+  settings: QuizSettings;
+  topics: string[]; // Key terms and components the student can focus on
+  onChange: (settings: QuizSettings) => void;
+}
+
+const DIFFICULTY_CHOICES: { value: QuizSettings['difficulty']; label: string }[] = [
+  { value: 'mixed', label: 'Mixed' },
+  ...(Object.keys(QUESTION_DIFFICULTIES) as QuestionDifficulty[]).map(value => ({
+    value,
+    label: QUESTION_DIFFICULTIES[value].label,
+  })),
+];
+
+const QuizSettingsPanel: React.FC<QuizSettingsPanelProps> = ({ settings, topics, onChange }) => {
+  const toggleTopic = (topic: string) => {
+    const focusTopics = settings.focusTopics.includes(topic)
+      ? settings.focusTopics.filter(t => t !== topic)
+      : [...settings.focusTopics, topic];
+    onChange({ ...settings, focusTopics });
+  };
+
+  return (
+    <div className="bg-[#0B1021] rounded-xl border border-indigo-900/30 p-4 space-y-4 text-left">
+      <div>
+        <label htmlFor="quiz-count" className="flex items-center justify-between text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-2">
+          <span>Questions</span>
+          <span className="text-amber-400 text-sm normal-case">{settings.count}</span>
+        </label>
+        <input
+          id="quiz-count"
+          type="range"
+          min={QUIZ_COUNT_RANGE.min}
+          max={QUIZ_COUNT_RANGE.max}
+          value={settings.count}
+          onChange={(e) => onChange({ ...settings, count: Number(e.target.value) })}
+          className="w-full accent-amber-500"
+        />
+      </div>
+
+      <div>
+        <span id="quiz-difficulty" className="block text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-2">Difficulty</span>
+        <div role="radiogroup" aria-labelledby="quiz-difficulty" className="grid grid-cols-2 sm:grid-cols-4 gap-1.5">
+          {DIFFICULTY_CHOICES.map(choice => (
+            <button
+              key={choice.value}
+              type="button"
+              role="radio"
+              aria-checked={settings.difficulty === choice.value}
+              title={choice.value === 'mixed' ? 'A mix of all levels' : QUESTION_DIFFICULTIES[choice.value].description}
+              onClick={() => onChange({ ...settings, difficulty: choice.value })}
+              className={`px-2 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                settings.difficulty === choice.value
+                  ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                  : 'bg-[#1e293b] border-indigo-900/50 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {choice.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {topics.length > 0 && (
+        <div>
+          <span className="block text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-2">
+            Focus on <span className="normal-case tracking-normal font-medium text-slate-500">(none selected = whole diagram)</span>
+          </span>
+          <div className="flex flex-wrap gap-1.5">
+            {topics.map(topic => {
+              const selected = settings.focusTopics.includes(topic);
+              return (
+                <button
+                  key={topic}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => toggleTopic(topic)}
+                  className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                    selected
+                      ? 'bg-indigo-600 border-indigo-400 text-white'
+                      : 'bg-[#1e293b] border-indigo-900/50 text-slate-300 hover:border-amber-500/40'
+                  }`}
+                >
+                  {topic}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizSettingsPanel;
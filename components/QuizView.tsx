@@ -1,31 +1,50 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { QuizQuestion } from '../types';
-import { askAiTutor } from '../services/geminiService';
+import { ChatMessage, ModelErrorKind, QuizAnswer, QuizQuestion, QuizSettings } from '../types';
+import { formatScore, gradeAnswer, scoreQuiz } from '../services/questionTypes';
+import { DEFAULT_QUIZ_SETTINGS, QUESTION_DIFFICULTIES, matchesQuizSettings } from '../services/quizSettings';
+import { ERROR_COPY } from './ErrorView';
+import Markdown from './Markdown';
+import MathText from './MathText';
+import QuestionResponse from './QuestionResponse';
+import QuizSettingsPanel from './QuizSettingsPanel';
+
+// Why the last "Generate New Questions" failed; App clears it on the next attempt
+export interface QuizGenerationError {
+  message: string;
+  kind: ModelErrorKind;
+}
 
 interface QuizViewProps {
   questions: QuizQuestion[];
-  onGenerateMore?: () => void;
+  onGenerateMore?: (settings: QuizSettings) => void;
+  topics?: string[]; // Focus choices offered in the quiz settings
+  bank?: QuizQuestion[]; // Every question this diagram has produced so far
+  onSampleFromBank?: (settings: QuizSettings) => void;
+  onComplete?: (answers: (QuizAnswer | null)[], score: number) => void;
   isGeneratingMore?: boolean;
-  imageSrc?: string | null;
-}
-
-interface ChatMessage {
-  id: string;
-  sender: 'user' | 'ai';
-  text: string;
+  generateError?: QuizGenerationError | null;
+  chatMessages: ChatMessage[];
+  isChatLoading?: boolean;
+  onAskTutor: (question: string, currentQuestion?: QuizQuestion, selectedAnswer?: QuizAnswer | null) => void;
+  onStopTutor?: () => void;
 }
 
-const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGeneratingMore = false, imageSrc }) => {
+const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, topics = [], bank = [], onSampleFromBank, onComplete, isGeneratingMore = false, generateError = null, chatMessages, isChatLoading = false, onAskTutor, onStopTutor }) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [userAnswers, setUserAnswers] = useState<(number | null)[]>(new Array(questions.length).fill(null));
+  const [userAnswers, setUserAnswers] = useState<(QuizAnswer | null)[]>(new Array(questions.length).fill(null));
   const [showResults, setShowResults] = useState(false);
+  // Bumped on retake so half-built answers (typed text, orderings) start over
+  const [attempt, setAttempt] = useState(0);
   const headingRef = useRef<HTMLHeadingElement>(null);
   const resultRef = useRef<HTMLDivElement>(null);
 
-  // Chat State
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // Settings for the next "Generate New Questions"; kept across quizzes for the same session
+  const [quizSettings, setQuizSettings] = useState<QuizSettings>(DEFAULT_QUIZ_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const bankMatches = bank.filter(q => matchesQuizSettings(q, quizSettings)).length;
+
+  // Chat input; the conversation itself lives with the diagram in App
   const [chatInput, setChatInput] = useState('');
-  const [isChatLoading, setIsChatLoading] = useState(false);
   // Ref for the scrollable container instead of a dummy element at the bottom
   const chatContainerRef = useRef<HTMLDivElement>(null);
 
@@ -34,7 +53,7 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
     setCurrentQuestionIndex(0);
     setUserAnswers(new Array(questions.length).fill(null));
     setShowResults(false);
-    // Don't reset chat history here intentionally, unless image changes, but image change triggers full app reset.
+    // Chat history is owned by App and follows the diagram, so it survives new questions.
   }, [questions]);
 
   // Scroll chat container to bottom on new message
@@ -48,6 +67,7 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
   const currentQuestion = questions[currentQuestionIndex];
   const currentAnswer = userAnswers[currentQuestionIndex];
   const isAnswered = currentAnswer !== null;
+  const credit = isAnswered && currentQuestion ? gradeAnswer(currentQuestion, currentAnswer) : 0;
 
   // Focus management for accessibility
   useEffect(() => {
@@ -58,11 +78,11 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
     }
   }, [currentQuestionIndex, showResults]);
 
-  const handleOptionClick = (index: number) => {
+  const handleAnswer = (answer: QuizAnswer) => {
     if (isAnswered) return;
     
     const newAnswers = [...userAnswers];
-    newAnswers[currentQuestionIndex] = index;
+    newAnswers[currentQuestionIndex] = answer;
     setUserAnswers(newAnswers);
   };
 
@@ -71,6 +91,7 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
       setCurrentQuestionIndex((prev) => prev + 1);
     } else {
       setShowResults(true);
+      onComplete?.(userAnswers, calculateScore());
     }
   };
 
@@ -84,41 +105,24 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
     setCurrentQuestionIndex(0);
     setUserAnswers(new Array(questions.length).fill(null));
     setShowResults(false);
+    setAttempt(prev => prev + 1);
   };
 
-  const handleChatSubmit = async (e: React.FormEvent) => {
+  const handleChatSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!chatInput.trim() || !imageSrc || isChatLoading) return;
+    if (!chatInput.trim() || isChatLoading) return;
 
-    const userMsg: ChatMessage = { id: Date.now().toString(), sender: 'user', text: chatInput };
-    setChatMessages(prev => [...prev, userMsg]);
-    setChatInput('');
-    setIsChatLoading(true);
-
-    try {
-      const rawBase64 = imageSrc.split(',')[1];
-      const mimeType = imageSrc.match(/data:([^;]+);/)?.[1] || 'image/png';
-      
-      const responseText = await askAiTutor(rawBase64, mimeType, userMsg.text);
-      
-      const aiMsg: ChatMessage = { id: (Date.now() + 1).toString(), sender: 'ai', text: responseText };
-      setChatMessages(prev => [...prev, aiMsg]);
-    } catch (error) {
-      const errorMsg: ChatMessage = { id: (Date.now() + 1).toString(), sender: 'ai', text: "Sorry, I couldn't answer that right now." };
-      setChatMessages(prev => [...prev, errorMsg]);
-    } finally {
-      setIsChatLoading(false);
+    // Send the question on screen along so follow-ups like "why not option B?" make sense
+    if (showResults) {
+      onAskTutor(chatInput);
+    } else {
+      onAskTutor(chatInput, currentQuestion, currentAnswer);
     }
+    setChatInput('');
   };
 
-  const calculateScore = () => {
-    return userAnswers.reduce((score, answer, index) => {
-      if (answer === questions[index].correctAnswerIndex) {
-        return score + 1;
-      }
-      return score;
-    }, 0);
-  };
+  // Ordering and matching questions can earn partial credit, so scores may be fractional
+  const calculateScore = () => scoreQuiz(questions, userAnswers);
 
   const getFeedbackMessage = (percentage: number) => {
     if (percentage === 100) return "Excellent work!";
@@ -149,11 +153,12 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
                     ? 'bg-indigo-600 text-white rounded-br-none' 
                     : 'bg-[#1e293b] text-slate-200 border border-indigo-900/50 rounded-bl-none'
                 }`}>
-                  {msg.text}
+                  {msg.sender === 'ai' && !msg.isError ? <Markdown text={msg.text} /> : msg.text}
                 </div>
               </div>
             ))}
-            {isChatLoading && (
+            {/* Typing dots until the first streamed token of the reply arrives */}
+            {isChatLoading && chatMessages[chatMessages.length - 1]?.sender === 'user' && (
               <div className="flex justify-start">
                 <div className="bg-[#1e293b] rounded-lg rounded-bl-none px-3 py-2 border border-indigo-900/50 flex items-center space-x-1">
                   <div className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
@@ -173,15 +178,28 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
             placeholder="Ask a question about this diagram..."
             className="w-full bg-transparent text-slate-200 text-sm px-4 py-3 pr-10 outline-none placeholder:text-slate-500"
           />
-          <button 
-            type="submit" 
-            disabled={!chatInput.trim() || isChatLoading}
-            className="absolute right-2 p-1.5 text-indigo-400 hover:text-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-            </svg>
-          </button>
+          {isChatLoading && onStopTutor ? (
+            <button 
+              type="button" 
+              onClick={onStopTutor}
+              aria-label="Stop the tutor's answer"
+              className="absolute right-2 p-1.5 text-indigo-400 hover:text-red-400 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+            </button>
+          ) : (
+            <button 
+              type="submit" 
+              disabled={!chatInput.trim() || isChatLoading}
+              className="absolute right-2 p-1.5 text-indigo-400 hover:text-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -244,7 +262,7 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
                    {getFeedbackMessage(percentage)}
                   </p>
                   <p className="text-slate-400 text-base">
-                    You scored <span className="text-white font-bold">{score}</span> out of <span className="text-white font-bold">{questions.length}</span>
+                    You scored <span className="text-white font-bold">{formatScore(score)}</span> out of <span className="text-white font-bold">{questions.length}</span>
                   </p>
               </div>
 
@@ -257,26 +275,60 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
                 </button>
                 
                 {onGenerateMore && (
-                  <button
-                    onClick={onGenerateMore}
-                    disabled={isGeneratingMore}
-                    className={`w-full px-6 py-3 rounded-xl font-bold transition-all border shadow-lg focus:outline-none focus:ring-4 focus:ring-indigo-500/50
-                      ${isGeneratingMore 
-                        ? "bg-indigo-950/50 border-indigo-900 text-indigo-400 cursor-wait" 
-                        : "bg-indigo-900 hover:bg-indigo-800 text-white border-indigo-700 hover:border-indigo-500 hover:shadow-indigo-500/20"}`}
-                  >
-                    {isGeneratingMore ? (
-                      <span className="flex items-center justify-center gap-2">
-                        <svg className="animate-spin h-5 w-5 text-indigo-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Creating New Questions...
-                      </span>
-                    ) : (
-                      "Generate New Questions"
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => setShowSettings(prev => !prev)}
+                      aria-expanded={showSettings}
+                      className="text-xs font-medium text-indigo-300 hover:text-amber-400 transition-colors self-center flex items-center"
+                    >
+                      <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                      </svg>
+                      {showSettings ? 'Hide quiz settings' : `Quiz settings · ${quizSettings.count} ${quizSettings.count === 1 ? 'question' : 'questions'}`}
+                    </button>
+                    {showSettings && (
+                      <QuizSettingsPanel settings={quizSettings} topics={topics} onChange={setQuizSettings} />
+                    )}
+                    <button
+                      onClick={() => onGenerateMore(quizSettings)}
+                      disabled={isGeneratingMore}
+                      className={`w-full px-6 py-3 rounded-xl font-bold transition-all border shadow-lg focus:outline-none focus:ring-4 focus:ring-indigo-500/50
+                        ${isGeneratingMore 
+                          ? "bg-indigo-950/50 border-indigo-900 text-indigo-400 cursor-wait" 
+                          : "bg-indigo-900 hover:bg-indigo-800 text-white border-indigo-700 hover:border-indigo-500 hover:shadow-indigo-500/20"}`}
+                    >
+                      {isGeneratingMore ? (
+                        <span className="flex items-center justify-center gap-2">
+                          <svg className="animate-spin h-5 w-5 text-indigo-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          Creating New Questions...
+                        </span>
+                      ) : (
+                        "Generate New Questions"
+                      )}
+                    </button>
+                    {generateError && !isGeneratingMore && (
+                      <div className="w-full rounded-xl border border-red-500/30 bg-red-900/20 px-4 py-3 text-left" role="alert">
+                        <p className="text-sm text-red-200">{generateError.message}</p>
+                        <p className="mt-1 text-xs text-slate-400">{ERROR_COPY[generateError.kind].remedy}</p>
+                      </div>
                     )}
-                  </button>
+                    {onSampleFromBank && bank.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => onSampleFromBank(quizSettings)}
+                        disabled={bankMatches === 0 || isGeneratingMore}
+                        title={bankMatches === 0 ? 'No banked questions match these settings yet' : undefined}
+                        className="w-full px-6 py-2.5 rounded-xl text-sm font-medium border border-indigo-900/50 text-indigo-200 hover:text-white hover:border-amber-500/40 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-indigo-900/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+                      >
+                        Practice from question bank
+                        <span className="ml-1 text-slate-400">({bankMatches} of {bank.length} match)</span>
+                      </button>
+                    )}
+                  </>
                 )}
               </div>
             </div>
@@ -316,78 +368,35 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
 
       {/* Scrollable Container including Question, Options, AND Buttons */}
       <div className="flex-grow overflow-y-auto pr-2 custom-scrollbar">
+        {/* Tags help teachers see what each question practises */}
+        {(currentQuestion.difficulty || currentQuestion.concept) && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {currentQuestion.difficulty && (
+              <span className="text-[10px] font-bold uppercase tracking-wider text-amber-300 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded-full">
+                {QUESTION_DIFFICULTIES[currentQuestion.difficulty].label}
+              </span>
+            )}
+            {currentQuestion.concept && (
+              <span className="text-[10px] font-medium text-indigo-200 bg-indigo-950 border border-indigo-800 px-2 py-0.5 rounded-full">
+                {currentQuestion.concept}
+              </span>
+            )}
+          </div>
+        )}
         <h3 
           ref={headingRef}
           tabIndex={-1}
           className="text-base md:text-lg text-white font-medium mb-4 leading-snug outline-none"
         >
-          {currentQuestion.question}
+          <MathText text={currentQuestion.question} />
         </h3>
 
-        <div className="space-y-2.5" role="radiogroup" aria-labelledby="question-heading">
-          {currentQuestion.options.map((option, index) => {
-            let buttonClass = "w-full text-left p-3 rounded-lg border transition-all duration-200 group relative overflow-hidden flex items-center outline-none focus:ring-4 focus:ring-amber-500/50 focus:border-amber-400 ";
-            let statusIcon = null;
-            let ariaLabel = `Option ${String.fromCharCode(65 + index)}: ${option}`;
-            let ariaChecked = false;
-
-            if (isAnswered) {
-              if (index === currentQuestion.correctAnswerIndex) {
-                // Correct Answer
-                buttonClass += "bg-[#064e3b] border-[#34d399] text-white shadow-[0_0_15px_rgba(52,211,153,0.3)] ";
-                statusIcon = (
-                   <div className="ml-auto text-[#34d399]" aria-hidden="true">
-                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                      </svg>
-                   </div>
-                );
-                ariaLabel += " (Correct Answer)";
-              } else if (index === currentAnswer) {
-                // User Selected Incorrectly
-                buttonClass += "bg-[#7f1d1d] border-[#f87171] text-white ";
-                statusIcon = (
-                   <div className="ml-auto text-[#f87171]" aria-hidden="true">
-                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                   </div>
-                );
-                ariaLabel += " (Incorrect Selection)";
-                ariaChecked = true;
-              } else {
-                // Unselected and not correct
-                buttonClass += "bg-[#1e293b] border-transparent text-slate-500 opacity-50 cursor-not-allowed ";
-              }
-            } else {
-              // Not Answered Yet
-              buttonClass += "bg-[#1e293b] border-indigo-900/50 text-slate-200 hover:bg-[#25324d] hover:border-amber-500/50 hover:shadow-[0_0_10px_rgba(245,158,11,0.1)] cursor-pointer ";
-            }
-
-            return (
-              <button
-                key={index}
-                role="radio"
-                aria-checked={isAnswered ? (index === currentAnswer) : false}
-                onClick={() => handleOptionClick(index)}
-                disabled={isAnswered}
-                aria-disabled={isAnswered}
-                aria-label={ariaLabel}
-                className={buttonClass}
-              >
-                <span className={`w-6 h-6 rounded-full border-2 flex-shrink-0 flex items-center justify-center mr-3 text-xs font-bold transition-colors ${
-                  isAnswered && index === currentQuestion.correctAnswerIndex ? 'border-[#34d399] bg-[#34d399] text-black' :
-                  isAnswered && index === currentAnswer ? 'border-[#f87171] bg-[#f87171] text-white' :
-                  'border-indigo-700 text-indigo-400 group-hover:border-amber-400 group-hover:text-amber-400'
-                }`} aria-hidden="true">
-                  {String.fromCharCode(65 + index)}
-                </span>
-                <span className="text-sm md:text-base leading-tight">{option}</span>
-                {statusIcon}
-              </button>
-            );
-          })}
-        </div>
+        <QuestionResponse
+          key={`${attempt}:${currentQuestionIndex}:${currentQuestion.question}`}
+          question={currentQuestion}
+          answer={currentAnswer}
+          onAnswer={handleAnswer}
+        />
 
         {isAnswered && (
           <div 
@@ -395,13 +404,17 @@ const QuizView: React.FC<QuizViewProps> = ({ questions, onGenerateMore, isGenera
             role="status" 
             aria-live="polite"
           >
-            <div className={`p-3 rounded-lg border-l-4 ${currentAnswer === currentQuestion.correctAnswerIndex ? 'bg-[#064e3b]/30 border-green-500' : 'bg-[#7f1d1d]/30 border-red-500'}`}>
-              <p className="text-slate-200 text-sm md:text-base">
-                <strong className={`block mb-0.5 uppercase tracking-wide text-[10px] ${currentAnswer === currentQuestion.correctAnswerIndex ? 'text-green-400' : 'text-red-400'}`}>
-                  {currentAnswer === currentQuestion.correctAnswerIndex ? 'Correct' : 'Incorrect'}
+            <div className={`p-3 rounded-lg border-l-4 ${
+              credit === 1 ? 'bg-[#064e3b]/30 border-green-500' : credit > 0 ? 'bg-amber-900/20 border-amber-500' : 'bg-[#7f1d1d]/30 border-red-500'
+            }`}>
+              <div className="text-slate-200 text-sm md:text-base">
+                <strong className={`block mb-0.5 uppercase tracking-wide text-[10px] ${
+                  credit === 1 ? 'text-green-400' : credit > 0 ? 'text-amber-400' : 'text-red-400'
+                }`}>
+                  {credit === 1 ? 'Correct' : credit > 0 ? `Partly correct · ${Math.round(credit * 100)}%` : 'Incorrect'}
                 </strong>
-                {currentQuestion.explanation}
-              </p>
+                <Markdown text={currentQuestion.explanation} />
+              </div>
             </div>
           </div>
         )}
@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { BoundingBox } from '../types';
+
+interface RegionSelectorProps {
+  image: string; // Data URL
+  alt: string;
+  region: BoundingBox | null;
+  onChange: (region: BoundingBox | null) => void;
+}
+
+// Drags smaller than this (as a fraction of the page) are treated as clicks
+const MIN_REGION = 0.02;
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/** An image to drag a rectangle over, for cropping one diagram out of a slide or photo. */
+const RegionSelector: React.FC<RegionSelectorProps> = ({ image, alt, region, onChange }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const boxBetween = (a: { x: number; y: number }, b: { x: number; y: number }): BoundingBox => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointAt(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStart) setDraft(boxBetween(dragStart, pointAt(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const box = boxBetween(dragStart, pointAt(e));
+    setDragStart(null);
+    setDraft(null);
+    if (box.width >= MIN_REGION && box.height >= MIN_REGION) onChange(box);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div>
+      <div
+        ref={frameRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { setDragStart(null); setDraft(null); }}
+        className="relative select-none touch-none cursor-crosshair rounded-lg overflow-hidden bg-white"
+      >
+        <img src={image} alt={alt} draggable={false} className="block w-full h-auto" />
+        {shown && (
+          <div
+            style={{ left: percent(shown.x), top: percent(shown.y), width: percent(shown.width), height: percent(shown.height) }}
+            className="absolute border-2 border-amber-400 bg-amber-400/10 shadow-[0_0_0_9999px_rgba(2,6,23,0.55)] pointer-events-none"
+          />
+        )}
+      </div>
+      <div className="mt-2 flex items-center justify-between text-xs text-indigo-300">
+        <span>{region ? 'Only the highlighted region will be analyzed.' : 'Drag across the image to analyze just one region.'}</span>
+        {region && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="px-2 py-0.5 rounded-md font-medium text-amber-400 hover:text-amber-300 hover:bg-indigo-950/70 transition-colors"
+          >
+            Clear Crop
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionSelector;
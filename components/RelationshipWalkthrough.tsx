@@ -0,0 +1,123 @@
+import React, { useEffect } from 'react';
+import { RelationshipStep } from '../types';
+import { stepRoute } from '../services/explanation';
+import MathText from './MathText';
+
+interface RelationshipWalkthroughProps {
+  steps: Partial<RelationshipStep>[];
+  activeStep: number | null; // The step being walked through; null outside walkthrough mode
+  onActiveStepChange?: (index: number | null) => void; // Unset while the analysis is streaming
+}
+
+const stepId = (index: number) => `relationship-step-${index}`;
+
+// Arrow keys step through the walkthrough unless the student is typing, e.g. to the tutor
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * The diagram's processes and flows as numbered steps. In walkthrough mode
+ * one step at a time is highlighted here and, by App, on the diagram, with
+ * previous/next controls and the arrow keys to move between them.
+ */
+const RelationshipWalkthrough: React.FC<RelationshipWalkthroughProps> = ({ steps, activeStep, onActiveStepChange }) => {
+  const canWalk = !!onActiveStepChange && steps.length > 1;
+  const goTo = (index: number) => onActiveStepChange?.(Math.min(Math.max(index, 0), steps.length - 1));
+
+  useEffect(() => {
+    if (activeStep === null) return;
+    document.getElementById(stepId(activeStep))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target)) return;
+      if (e.key === 'ArrowRight') goTo(activeStep + 1);
+      else if (e.key === 'ArrowLeft') goTo(activeStep - 1);
+      else if (e.key === 'Escape') onActiveStepChange?.(null);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [activeStep, steps.length]);
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-xl font-bold text-white flex items-center">
+          <span className="w-1 h-6 bg-amber-500 mr-3 rounded-full shadow-[0_0_8px_rgba(245,158,11,0.5)]"></span>
+          {steps.length > 1 ? 'Key Relationships' : 'Key Relationship Detail'}
+        </h3>
+        {canWalk && (
+          <button
+            type="button"
+            onClick={() => onActiveStepChange!(activeStep === null ? 0 : null)}
+            aria-pressed={activeStep !== null}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider border transition-colors ${
+              activeStep !== null
+                ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                : 'bg-[#0B1021] border-indigo-900/50 text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {activeStep !== null ? 'End walkthrough' : 'Walk through'}
+          </button>
+        )}
+      </div>
+
+      <ol className="space-y-3">
+        {steps.map((step, i) => {
+          const route = stepRoute(step);
+          const isActive = i === activeStep;
+          return (
+            <li
+              key={i}
+              id={stepId(i)}
+              aria-current={isActive ? 'step' : undefined}
+              onClick={activeStep !== null ? () => goTo(i) : undefined}
+              className={`scroll-mt-8 flex items-start bg-[#0B1021] p-4 rounded-lg border transition-all ${
+                isActive
+                  ? 'border-amber-500/70 shadow-[0_0_12px_rgba(245,158,11,0.25)]'
+                  : activeStep !== null
+                    ? 'border-indigo-900/20 opacity-50 hover:opacity-80 cursor-pointer'
+                    : 'border-indigo-900/20 shadow-inner'
+              }`}
+            >
+              {steps.length > 1 && (
+                <span className={`font-mono font-bold mr-4 text-lg ${isActive ? 'text-amber-400' : 'text-amber-500/80'}`}>{i + 1}.</span>
+              )}
+              <div className="min-w-0">
+                {route && <p className="text-amber-200 font-semibold mb-1">{route}</p>}
+                <p className="text-slate-300 italic leading-relaxed text-lg">
+                  <MathText text={step.description ?? ''} />
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {canWalk && activeStep !== null && (
+        <div className="flex items-center justify-between mt-4">
+          <button
+            type="button"
+            onClick={() => goTo(activeStep - 1)}
+            disabled={activeStep === 0}
+            className="px-4 py-2 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-indigo-300 tabular-nums" aria-live="polite">
+            Step {activeStep + 1} of {steps.length}
+          </span>
+          <button
+            type="button"
+            onClick={() => goTo(activeStep + 1)}
+            disabled={activeStep === steps.length - 1}
+            className="px-4 py-2 text-sm font-bold text-slate-900 bg-amber-500 hover:bg-amber-400 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RelationshipWalkthrough;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ExplanationHistory, ExplanationSection, RewriteStyle } from '../types';
+import { REWRITE_STYLES } from '../services/explanation';
+
+// What ExplanationView needs to offer rewrites of its sections; App owns the state
+export interface SectionRewriteState {
+  history: ExplanationHistory;
+  pending: ExplanationSection | null; // The section being rewritten; one at a time
+  error: { section: ExplanationSection; message: string } | null;
+  onRewrite: (section: ExplanationSection, style: RewriteStyle) => void;
+  onSelectVersion: (section: ExplanationSection, index: number) => void;
+}
+
+interface SectionControlsProps extends SectionRewriteState {
+  section: ExplanationSection;
+  heading: string; // For the buttons' accessible names
+}
+
+/**
+ * Buttons that ask for a section in other words, and once it has been
+ * rewritten, arrows to flip between its versions back to the original.
+ * Everything waits while any section is being rewritten, since App adds
+ * the new version to the history as it stood when the rewrite started.
+ */
+const SectionControls: React.FC<SectionControlsProps> = ({ section, heading, history, pending, error, onRewrite, onSelectVersion }) => {
+  const entry = history[section];
+  const version = entry?.versions[entry.current];
+  const isPending = pending === section;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {isPending ? (
+        <span className="text-xs text-indigo-300 animate-pulse px-2" role="status">Rewriting...</span>
+      ) : (
+        (Object.keys(REWRITE_STYLES) as RewriteStyle[]).map(style => (
+          <button
+            key={style}
+            type="button"
+            onClick={() => onRewrite(section, style)}
+            disabled={pending !== null}
+            aria-label={`${REWRITE_STYLES[style].label}: ${heading}`}
+            className="px-2 py-1 rounded-md text-[11px] font-medium border bg-[#0B1021] border-indigo-900/50 text-slate-400 hover:text-amber-300 hover:border-amber-500/50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {REWRITE_STYLES[style].label}
+          </button>
+        ))
+      )}
+
+      {entry && version && (
+        <div className="flex items-center ml-1 text-[11px] text-slate-400" aria-label={`Versions of ${heading}`}>
+          <button
+            type="button"
+            onClick={() => onSelectVersion(section, entry.current - 1)}
+            disabled={entry.current === 0 || pending !== null}
+            aria-label="Previous version"
+            className="px-1.5 py-1 rounded hover:text-amber-300 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            ‹
+          </button>
+          <span className="tabular-nums whitespace-nowrap" aria-live="polite">
+            {version.style ? REWRITE_STYLES[version.style].version : 'Original'} · {entry.current + 1}/{entry.versions.length}
+          </span>
+          <button
+            type="button"
+            onClick={() => onSelectVersion(section, entry.current + 1)}
+            disabled={entry.current === entry.versions.length - 1 || pending !== null}
+            aria-label="Next version"
+            className="px-1.5 py-1 rounded hover:text-amber-300 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            ›
+          </button>
+        </div>
+      )}
+
+      {error?.section === section && (
+        <span className="basis-full text-xs text-red-300" role="alert">{error.message}</span>
+      )}
+    </div>
+  );
+};
+
+export default SectionControls;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { BoundingBox, Hotspot, RelationshipStep } from '../types';
+import { stepRoute } from '../services/explanation';
+import { termKey } from '../services/hotspots';
+
+interface StepOverlayProps {
+  step: RelationshipStep;
+  index: number;
+  hotspots: Hotspot[];
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+
+// The step's own region, or failing that the hotspots of its source and target
+const stepRegions = (step: RelationshipStep, hotspots: Hotspot[]): BoundingBox[] => {
+  if (step.box) return [step.box];
+  const ends = [step.source, step.target].filter(Boolean).map(termKey);
+  return hotspots.filter(hotspot => ends.includes(termKey(hotspot.term))).map(hotspot => hotspot.box);
+};
+
+/**
+ * Highlights the walkthrough's current step on the image preview. Like
+ * HotspotOverlay, it must sit in a box exactly the size of the rendered image.
+ */
+const StepOverlay: React.FC<StepOverlayProps> = ({ step, index, hotspots }) => {
+  const regions = stepRegions(step, hotspots);
+  if (regions.length === 0) return null;
+  const route = stepRoute(step);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-20" aria-hidden="true">
+      {regions.map((box, i) => (
+        <div
+          key={i}
+          style={{ left: percent(box.x), top: percent(box.y), width: percent(box.width), height: percent(box.height) }}
+          className="absolute rounded-md border-2 border-amber-400 bg-amber-400/15 shadow-[0_0_16px_rgba(245,158,11,0.6)] transition-all duration-500"
+        >
+          {i === 0 && (
+            <span className={`absolute left-0 ${box.y < 0.1 ? 'top-full mt-1' : 'bottom-full mb-1'} whitespace-nowrap bg-[#020617]/90 border border-amber-500/50 text-amber-200 text-[11px] font-bold px-2 py-0.5 rounded-md`}>
+              {index + 1}{route && `. ${route}`}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StepOverlay;
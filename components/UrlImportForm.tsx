@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { fetchImageFromUrl } from '../services/imageImport';
+
+interface UrlImportFormProps {
+  onImport: (file: File) => void;
+}
+
+/** A field for the address of an image or PDF on the web. */
+const UrlImportForm: React.FC<UrlImportFormProps> = ({ onImport }) => {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || isLoading) return;
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const file = await fetchImageFromUrl(url, controller.signal);
+      if (!controller.signal.aborted) onImport(file);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err.message);
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full">
+      <label htmlFor="import-url" className="block text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-1.5">Import from a link</label>
+      <div className="flex gap-2">
+        <input
+          id="import-url"
+          type="url"
+          value={url}
+          onChange={(e) => { setUrl(e.target.value); setError(null); }}
+          placeholder="https://example.com/diagram.png"
+          aria-invalid={!!error}
+          aria-describedby={error ? 'import-url-error' : undefined}
+          className="flex-grow min-w-0 bg-[#1e293b] text-slate-200 text-sm px-3 py-2 rounded-lg border border-indigo-900/50 outline-none focus:border-amber-500/50 placeholder:text-slate-500"
+        />
+        <button
+          type="submit"
+          disabled={!url.trim() || isLoading}
+          className="px-4 py-2 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+        >
+          {isLoading ? 'Loading...' : 'Import'}
+        </button>
+      </div>
+      {error && (
+        <p id="import-url-error" className="mt-2 text-xs text-red-300" role="alert">{error}</p>
+      )}
+    </form>
+  );
+};
+
+export default UrlImportForm;
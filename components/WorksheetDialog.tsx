@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AnalysisResult } from '../types';
+import { downloadFile } from '../services/quizExport';
+import {
+  DEFAULT_WORKSHEET_OPTIONS,
+  WorksheetOptions,
+  buildWorksheetForms,
+  fitsPdfFonts,
+  numberedDiagram,
+  renderWorksheetPdf,
+} from '../services/worksheet';
+import WorksheetPages from './WorksheetPages';
+
+interface WorksheetDialogProps {
+  result: AnalysisResult;
+  image: string;
+}
+
+/**
+ * Prints the analysis as a classroom worksheet with an answer key, or
+ * downloads it as a PDF. While open, the worksheet is also mounted outside
+ * the app so the browser's own print command prints it instead of the page.
+ */
+const WorksheetDialog: React.FC<WorksheetDialogProps> = ({ result, image }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<WorksheetOptions>(DEFAULT_WORKSHEET_OPTIONS);
+  const [diagram, setDiagram] = useState(image);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const labels = result.labels ?? [];
+  const hideLabels = options.hideLabels && labels.length > 0;
+  const forms = useMemo(() => buildWorksheetForms(result, { ...options, hideLabels }), [result, options, hideLabels]);
+  const pdfReady = useMemo(() => fitsPdfFonts(result), [result]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!hideLabels) {
+      setDiagram(image);
+      return;
+    }
+    let cancelled = false;
+    numberedDiagram(image, result.labels ?? [])
+      .then(masked => !cancelled && setDiagram(masked))
+      .catch(() => !cancelled && setDiagram(image));
+    return () => { cancelled = true; };
+  }, [isOpen, hideLabels, image, result]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && setIsOpen(false);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  const updateOptions = (changes: Partial<WorksheetOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const handleDownload = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      downloadFile(await renderWorksheetPdf(result.title, forms, diagram, { ...options, hideLabels }));
+    } catch (err: any) {
+      setError(err.message || 'Could not create the PDF.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider border bg-[#0f172a] border-indigo-900/50 text-slate-400 hover:text-slate-200 transition-colors"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+        </svg>
+        Worksheet
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4" onClick={() => setIsOpen(false)}>
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="worksheet-dialog-title"
+            onClick={e => e.stopPropagation()}
+            className="w-full max-w-md bg-[#0f172a] border border-indigo-800 rounded-xl shadow-2xl p-6"
+          >
+            <h2 id="worksheet-dialog-title" className="text-lg font-bold text-slate-100 mb-1">Printable Worksheet</h2>
+            <p className="text-sm text-indigo-300 mb-5">
+              The diagram, a key-term fill-in list and the quiz with space to answer.
+            </p>
+
+            <fieldset className="mb-4">
+              <legend className="block text-[11px] font-bold text-indigo-300 uppercase tracking-wider mb-1.5">Versions</legend>
+              <div role="radiogroup" className="grid grid-cols-2 gap-1">
+                {([1, 2] as const).map(count => (
+                  <button
+                    key={count}
+                    type="button"
+                    role="radio"
+                    aria-checked={options.forms === count}
+                    onClick={() => updateOptions({ forms: count })}
+                    className={`px-2 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                      options.forms === count
+                        ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                        : 'bg-[#1e293b] border-indigo-900/50 text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    {count === 1 ? 'One version' : 'Forms A and B (shuffled)'}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+
+            <label className={`flex items-center gap-2 text-sm mb-2 ${labels.length > 0 ? 'text-slate-200' : 'text-slate-500'}`}>
+              <input
+                type="checkbox"
+                checked={hideLabels}
+                disabled={labels.length === 0}
+                onChange={e => updateOptions({ hideLabels: e.target.checked })}
+                className="accent-amber-500"
+              />
+              Hide diagram labels for students to fill in
+            </label>
+            {labels.length === 0 && (
+              <p className="text-xs text-slate-500 mb-2 ml-6">No printed labels were found on this diagram.</p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-200 mb-5">
+              <input
+                type="checkbox"
+                checked={options.answerKey}
+                onChange={e => updateOptions({ answerKey: e.target.checked })}
+                className="accent-amber-500"
+              />
+              Include an answer key with explanations
+            </label>
+
+            {!pdfReady && (
+              <p className="text-xs text-amber-300 bg-amber-950/30 border border-amber-900/50 rounded-lg px-3 py-2 mb-4">
+                The PDF can't show some characters in this worksheet. Use Print and choose "Save as PDF" instead.
+              </p>
+            )}
+            {error && <p className="text-xs text-red-300 mb-4" role="alert">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setIsOpen(false)}
+                className="px-4 py-2 text-sm font-medium text-slate-400 hover:text-slate-200 transition-colors"
+              >
+                Close
+              </button>
+              <button
+                type="button"
+                onClick={handleDownload}
+                disabled={!pdfReady || isSaving}
+                className="px-4 py-2 text-sm font-medium text-indigo-200 bg-indigo-900/50 hover:bg-indigo-800 border border-indigo-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Creating PDF...' : 'Download PDF'}
+              </button>
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="px-4 py-2 text-sm font-bold text-slate-900 bg-amber-500 hover:bg-amber-400 rounded-lg transition-colors"
+              >
+                Print
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isOpen && createPortal(
+        <div className="print-root">
+          <WorksheetPages title={result.title} forms={forms} diagram={diagram} answerKey={options.answerKey} />
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default WorksheetDialog;
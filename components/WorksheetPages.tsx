@@ -0,0 +1,151 @@
+import React from 'react';
+import { WorksheetForm, WorksheetItem } from '../services/worksheet';
+
+interface WorksheetPagesProps {
+  title: string;
+  forms: WorksheetForm[];
+  diagram: string;
+  answerKey: boolean;
+}
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const AnswerLine: React.FC<{ label?: string }> = ({ label }) => (
+  <div className="flex items-end gap-2 h-8">
+    {label && <span className="text-sm">{label}</span>}
+    <span className="flex-grow border-b border-black" />
+  </div>
+);
+
+const ItemBody: React.FC<{ item: WorksheetItem }> = ({ item }) => (
+  <>
+    {item.choices && (
+      <ol className="mt-1 ml-6 space-y-1">
+        {item.choices.map((choice, i) => (
+          <li key={i} className="flex gap-2">
+            <span className="inline-flex items-center justify-center w-5 h-5 rounded-full border border-black text-xs flex-shrink-0">{letter(i)}</span>
+            {choice}
+          </li>
+        ))}
+      </ol>
+    )}
+    {item.steps && (
+      <ul className="mt-1 ml-6 space-y-1">
+        {item.steps.map((step, i) => (
+          <li key={i} className="flex gap-2">
+            <span className="w-6 h-5 border border-black flex-shrink-0" />
+            {step}
+          </li>
+        ))}
+      </ul>
+    )}
+    {item.matching && (
+      <div className="mt-1 ml-6 grid grid-cols-2 gap-6">
+        <ol className="space-y-1">
+          {item.matching.terms.map((term, i) => <li key={i}>____ {i + 1}. {term}</li>)}
+        </ol>
+        <ol className="space-y-1 text-sm">
+          {item.matching.definitions.map((definition, i) => <li key={i}>{letter(i)}. {definition}</li>)}
+        </ol>
+      </div>
+    )}
+    {item.answerLine && <div className="ml-6"><AnswerLine /></div>}
+  </>
+);
+
+const SectionHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h2 className="text-lg font-bold mt-6 mb-2 border-b border-black">{children}</h2>
+);
+
+/** The worksheet laid out for paper: black on white, each form and answer key starting a new page. */
+const WorksheetPages: React.FC<WorksheetPagesProps> = ({ title, forms, diagram, answerKey }) => (
+  <div className="text-black bg-white font-serif">
+    {forms.map((form, formIndex) => {
+      const heading = form.name ? `${title} (${form.name})` : title;
+      return (
+        <React.Fragment key={formIndex}>
+          <section style={formIndex > 0 ? { breakBefore: 'page' } : undefined}>
+            <h1 className="text-2xl font-bold">{heading}</h1>
+            <div className="w-2/3 mb-4"><AnswerLine label="Name:" /></div>
+            <img src={diagram} alt="" className="block mx-auto max-w-full max-h-[45vh] object-contain" />
+
+            {form.labels.length > 0 && (
+              <>
+                <SectionHeading>Label the diagram</SectionHeading>
+                <ol className="grid grid-cols-2 gap-x-8">
+                  {form.labels.map((_, i) => <li key={i}><AnswerLine label={`${i + 1}.`} /></li>)}
+                </ol>
+              </>
+            )}
+
+            {form.keyTerms.length > 0 && (
+              <>
+                <SectionHeading>Key terms</SectionHeading>
+                <p className="text-sm mb-2"><span className="font-bold">Word bank:</span> {form.wordBank.join(' • ')}</p>
+                <ol className="space-y-2">
+                  {form.keyTerms.map((keyTerm, i) => (
+                    <li key={i} style={{ breakInside: 'avoid' }}>
+                      <div className="w-1/2"><AnswerLine label={`${i + 1}.`} /></div>
+                      <p className="text-sm ml-6">{keyTerm.definition}</p>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+
+            {form.items.length > 0 && (
+              <>
+                <SectionHeading>Questions</SectionHeading>
+                <ol className="space-y-4">
+                  {form.items.map((item, i) => (
+                    <li key={i} style={{ breakInside: 'avoid' }}>
+                      <p>{i + 1}. {item.prompt}</p>
+                      <ItemBody item={item} />
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </section>
+
+          {answerKey && (
+            <section style={{ breakBefore: 'page' }}>
+              <h1 className="text-2xl font-bold mb-2">Answer key: {heading}</h1>
+              {form.labels.length > 0 && (
+                <>
+                  <SectionHeading>Diagram labels</SectionHeading>
+                  <ol className="grid grid-cols-2 gap-x-8">
+                    {form.labels.map((label, i) => <li key={i}>{i + 1}. {label}</li>)}
+                  </ol>
+                </>
+              )}
+              {form.keyTerms.length > 0 && (
+                <>
+                  <SectionHeading>Key terms</SectionHeading>
+                  <ol className="grid grid-cols-2 gap-x-8">
+                    {form.keyTerms.map((keyTerm, i) => <li key={i}>{i + 1}. {keyTerm.term}</li>)}
+                  </ol>
+                </>
+              )}
+              {form.items.length > 0 && (
+                <>
+                  <SectionHeading>Questions</SectionHeading>
+                  <ol className="space-y-3">
+                    {form.items.map((item, i) => (
+                      <li key={i} style={{ breakInside: 'avoid' }}>
+                        <p className="font-bold">{i + 1}. {item.answer}</p>
+                        <p className="text-sm ml-6">{item.explanation}</p>
+                      </li>
+                    ))}
+                  </ol>
+                </>
+              )}
+            </section>
+          )}
+        </React.Fragment>
+      );
+    })}
+  </div>
+);
+
+export default WorksheetPages;
@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { Server, createServer } from "node:http";
+import { after, before, describe, it } from "node:test";
+import { AnalysisResponse, QuizQuestion } from "../types";
+import { API_ROUTES, StreamEvent } from "../services/apiProtocol";
+import { DEFAULT_AUDIENCE_PROFILE } from "../services/audienceProfile";
+import { createLazyProvider } from "../services/providers";
+import { createFixtureProvider } from "../services/providers/fixtureProvider";
+import { ApiHandlerOptions, UsageRecord, createApiHandler } from "./apiHandler";
+
+// Runs the handler on a real socket against the fixture provider, so the
+// routes, rejections and cache are checked without a model or an API key.
+
+const IMAGE = { base64Data: Buffer.from("not really a png").toString("base64"), mimeType: "image/png" };
+
+interface Reply {
+  status: number;
+  headers: Headers;
+  events: StreamEvent<unknown>[]; // Empty for plain JSON rejections
+  json?: { error?: { kind: string; message: string } };
+}
+
+const startServer = async (options: ApiHandlerOptions): Promise<{ server: Server; url: string }> => {
+  const server = createServer(createApiHandler(options));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+const send = async (url: string, init: RequestInit = {}): Promise<Reply> => {
+  const response = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, ...init });
+  const text = await response.text();
+  if (response.headers.get("Content-Type") === "application/x-ndjson") {
+    const events = text.split("\n").filter(Boolean).map((line) => JSON.parse(line) as StreamEvent<unknown>);
+    return { status: response.status, headers: response.headers, events };
+  }
+  return { status: response.status, headers: response.headers, events: [], json: text ? JSON.parse(text) : undefined };
+};
+
+const post = (url: string, body: unknown) => send(url, { body: JSON.stringify(body) });
+
+const resultOf = <T>(reply: Reply): T => {
+  const last = reply.events.at(-1);
+  assert.equal(last?.type, "result", `expected a result event, got ${JSON.stringify(last)}`);
+  return (last as { data: T }).data;
+};
+
+describe("API handler with the fixture provider", () => {
+  const fixture = createFixtureProvider({ kind: "fixture", model: "fixture" });
+  let analyzeCalls = 0;
+  const log: UsageRecord[] = [];
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    ({ server, url } = await startServer({
+      provider: {
+        ...fixture,
+        analyze: (...args) => {
+          analyzeCalls++;
+          return fixture.analyze(...args);
+        },
+      },
+      maxBodyBytes: 64 * 1024,
+      log: (record) => log.push(record),
+    }));
+  });
+
+  after(() => server.close());
+
+  it("streams an analysis, then answers the same image from the cache", async () => {
+    const first = await post(`${url}${API_ROUTES.analyze}`, { image: IMAGE });
+    assert.equal(first.status, 200);
+    assert.ok(first.events.some((event) => event.type === "partial"), "partial events precede the result");
+    const fresh = resultOf<AnalysisResponse>(first);
+    assert.equal(fresh.cachedAt, undefined);
+    assert.ok(fresh.result.relationships.length > 0);
+
+    const second = resultOf<AnalysisResponse>(await post(`${url}${API_ROUTES.analyze}`, { image: IMAGE }));
+    assert.equal(typeof second.cachedAt, "number");
+    assert.deepEqual(second.result, fresh.result);
+    assert.equal(analyzeCalls, 1);
+    assert.equal(log.at(-1)?.outcome, "cached");
+
+    await post(`${url}${API_ROUTES.analyze}`, { image: IMAGE, refresh: true });
+    assert.equal(analyzeCalls, 2);
+  });
+
+  it("serves more questions the student hasn't seen", async () => {
+    const { result } = resultOf<AnalysisResponse>(await post(`${url}${API_ROUTES.analyze}`, { image: IMAGE }));
+    const seen = result.quiz.map((q) => q.question);
+    const reply = await post(`${url}${API_ROUTES.moreQuestions}`, {
+      image: IMAGE,
+      settings: { count: 2, difficulty: "mixed", focusTopics: [] },
+      seen,
+    });
+    const questions = resultOf<QuizQuestion[]>(reply);
+    assert.equal(questions.length, 2);
+    assert.ok(questions.every((q) => !seen.includes(q.question)));
+  });
+
+  it("streams tutor replies as text events", async () => {
+    const reply = await post(`${url}${API_ROUTES.tutor}`, { image: IMAGE, request: { question: "What drives evaporation?", history: [] } });
+    // Each text event carries the reply so far
+    const texts = reply.events.filter((event) => event.type === "text").map((event) => (event as { data: string }).data);
+    assert.ok(texts.length > 1);
+    assert.equal(resultOf<string>(reply), texts.at(-1));
+  });
+
+  it("rewrites a section", async () => {
+    const { result } = resultOf<AnalysisResponse>(await post(`${url}${API_ROUTES.analyze}`, { image: IMAGE }));
+    const reply = await post(`${url}${API_ROUTES.rewriteSection}`, {
+      image: IMAGE,
+      request: { section: "mainPurpose", style: "simpler", title: result.title, explanation: result.explanation, profile: DEFAULT_AUDIENCE_PROFILE },
+    });
+    assert.equal(reply.status, 200);
+    assert.equal(typeof resultOf<string>(reply), "string");
+  });
+
+  it("rejects unknown routes and other methods", async () => {
+    assert.equal((await post(`${url}/api/nothing`, {})).status, 404);
+    const get = await send(`${url}${API_ROUTES.analyze}`, { method: "GET" });
+    assert.equal(get.status, 405);
+    assert.equal(get.headers.get("Allow"), "POST");
+  });
+
+  it("rejects bodies that aren't valid requests with 400", async () => {
+    const notJson = await send(`${url}${API_ROUTES.analyze}`, { body: "{" });
+    assert.equal(notJson.status, 400);
+    assert.equal(notJson.json?.error?.message, "Request body must be JSON.");
+    assert.equal((await post(`${url}${API_ROUTES.analyze}`, { image: { ...IMAGE, mimeType: "text/html" } })).status, 400);
+    assert.equal((await post(`${url}${API_ROUTES.tutor}`, { image: IMAGE, request: { question: " " } })).status, 400);
+    assert.equal((await post(`${url}${API_ROUTES.rewriteSection}`, { image: IMAGE, request: { section: "toString" } })).status, 400);
+  });
+
+  it("rejects bodies over the size limit with 413", async () => {
+    const reply = await post(`${url}${API_ROUTES.analyze}`, { image: { ...IMAGE, base64Data: "A".repeat(80 * 1024) } });
+    assert.equal(reply.status, 413);
+    assert.equal(log.at(-1)?.outcome, "rejected");
+  });
+
+  it("rate-limits each route per client and says when to retry", async () => {
+    const limitedServer = await startServer({ provider: fixture, rateLimits: { tutor: 1 }, log: () => {} });
+    const tutor = `${limitedServer.url}${API_ROUTES.tutor}`;
+    try {
+      assert.equal((await post(tutor, { image: IMAGE, request: { question: "Why?", history: [] } })).status, 200);
+      const limited = await post(tutor, { image: IMAGE, request: { question: "Why?", history: [] } });
+      assert.equal(limited.status, 429);
+      assert.equal(limited.json?.error?.kind, "quota");
+      assert.ok(Number(limited.headers.get("Retry-After")) > 0);
+      // Other routes have their own limits
+      assert.equal((await post(`${limitedServer.url}${API_ROUTES.analyze}`, { image: IMAGE })).status, 200);
+    } finally {
+      limitedServer.server.close();
+    }
+  });
+});
+
+describe("API handler without an API key", () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    ({ server, url } = await startServer({
+      provider: createLazyProvider({ kind: "gemini", model: "gemini-test", apiKey: undefined }),
+      log: () => {},
+    }));
+  });
+
+  after(() => server.close());
+
+  it("reports the missing key on the request instead of failing to start", async () => {
+    const reply = await post(`${url}${API_ROUTES.analyze}`, { image: IMAGE });
+    assert.equal(reply.status, 200);
+    assert.deepEqual(reply.events.at(-1), {
+      type: "error",
+      error: { kind: "api-key", message: "API Key is missing. Please check your environment configuration." },
+    });
+  });
+});
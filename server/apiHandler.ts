@@ -0,0 +1,298 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { AnalysisResponse, ExplanationSection, RewriteStyle, SectionRewriteRequest, TutorRequest } from "../types";
+import {
+  API_ROUTES,
+  AnalyzeRequestBody,
+  ApiErrorPayload,
+  ApiRoute,
+  MoreQuestionsRequestBody,
+  RATE_LIMIT_WINDOW_MS,
+  RewriteSectionRequestBody,
+  StreamEvent,
+  TutorRequestBody,
+} from "../services/apiProtocol";
+import { normalizeProfile } from "../services/audienceProfile";
+import { ModelServiceError, classifyError } from "../services/errors";
+import { normalizeQuizSettings } from "../services/quizSettings";
+import { EXPLANATION_SECTIONS, REWRITE_STYLES } from "../services/explanation";
+import { analyzeDiagram, answerTutorQuestion, generateQuiz, rewriteExplanationSection } from "../services/modelService";
+import { DiagramImage, ModelProvider } from "../services/providers";
+import { createDiagramCache } from "./diagramCache";
+import { RateLimiter, createRateLimiter } from "./rateLimiter";
+import { ResponseCacheOptions } from "./responseCache";
+
+export interface UsageRecord {
+  time: string;
+  client: string;
+  route: string;
+  status: number;
+  outcome: "ok" | "cached" | "error" | "rejected" | "aborted";
+  durationMs: number;
+  requestBytes: number;
+  provider: string;
+  model: string;
+  errorKind?: string;
+}
+
+export interface ApiHandlerOptions {
+  provider: ModelProvider;
+  /** Largest accepted request body; images arrive base64-encoded inside it. */
+  maxBodyBytes?: number;
+  /** Requests per client per minute, by route. */
+  rateLimits?: Partial<Record<ApiRoute, number>>;
+  /** Use X-Forwarded-For as the client id (only behind a proxy you control). */
+  trustProxy?: boolean;
+  /** Lifetime and size of the per-diagram analysis cache and question pools. */
+  cache?: Partial<ResponseCacheOptions>;
+  log?: (record: UsageRecord) => void;
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+export const DEFAULT_RATE_LIMITS: Record<ApiRoute, number> = {
+  analyze: 10,
+  moreQuestions: 20,
+  tutor: 30,
+  rewriteSection: 20,
+};
+
+export const DEFAULT_CACHE_OPTIONS: ResponseCacheOptions = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 200,
+};
+
+/** A rejection that happens before any model work: bad route, body or rate. */
+class RequestError extends Error {
+  constructor(public status: number, public payload: ApiErrorPayload, public headers: Record<string, string> = {}) {
+    super(payload.message);
+    this.name = "RequestError";
+  }
+}
+
+const badRequest = (message: string) => new RequestError(400, { kind: "unknown", message });
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<{ body: unknown; bytes: number }> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = new RequestError(413, {
+      kind: "unknown",
+      message: `That image is too large to send (limit ${Math.round(maxBytes / 1024 / 1024)} MB). Try a smaller or compressed image.`,
+    });
+    if (Number(req.headers["content-length"] ?? 0) > maxBytes) {
+      reject(tooLarge);
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    req.on("data", (chunk: Buffer) => {
+      bytes += chunk.length;
+      // Keep draining the upload so the 413 response can still be delivered
+      if (bytes > maxBytes) reject(tooLarge);
+      else chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (bytes > maxBytes) return;
+      try {
+        resolve({ body: JSON.parse(Buffer.concat(chunks).toString("utf8")), bytes });
+      } catch {
+        reject(badRequest("Request body must be JSON."));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const parseImage = (body: unknown): DiagramImage => {
+  const image = (body as Partial<AnalyzeRequestBody> | null)?.image;
+  if (
+    !image ||
+    typeof image.base64Data !== "string" ||
+    !image.base64Data ||
+    typeof image.mimeType !== "string" ||
+    !image.mimeType.startsWith("image/")
+  ) {
+    throw badRequest("Request must include an image with base64Data and an image mimeType.");
+  }
+  return { base64Data: image.base64Data, mimeType: image.mimeType };
+};
+
+const parseTutorRequest = (body: unknown): TutorRequest => {
+  const request = (body as Partial<TutorRequestBody> | null)?.request;
+  if (!request || typeof request.question !== "string" || !request.question.trim() || !Array.isArray(request.history)) {
+    throw badRequest("Tutor requests need a question and a history array.");
+  }
+  return request.profile ? { ...request, profile: normalizeProfile(request.profile) } : request;
+};
+
+const parseRewriteRequest = (body: unknown): SectionRewriteRequest => {
+  const request = (body as Partial<RewriteSectionRequestBody> | null)?.request;
+  const explanation = request?.explanation;
+  if (
+    !request ||
+    !Object.hasOwn(EXPLANATION_SECTIONS, request.section) ||
+    !Object.hasOwn(REWRITE_STYLES, request.style) ||
+    !explanation ||
+    typeof explanation !== "object" ||
+    !Array.isArray(explanation.keyTerms) ||
+    !Array.isArray(explanation.components)
+  ) {
+    throw badRequest("Rewrite requests need a section, a style and the explanation.");
+  }
+  return {
+    section: request.section as ExplanationSection,
+    style: request.style as RewriteStyle,
+    title: typeof request.title === "string" ? request.title : "",
+    explanation,
+    profile: normalizeProfile(request.profile),
+  };
+};
+
+const parseSeen = (body: unknown): string[] => {
+  const seen = (body as Partial<MoreQuestionsRequestBody> | null)?.seen;
+  return Array.isArray(seen) ? seen.filter((text): text is string => typeof text === "string") : [];
+};
+
+const routeFor = (url: string | undefined): ApiRoute | undefined => {
+  const path = (url ?? "").split("?")[0];
+  return (Object.keys(API_ROUTES) as ApiRoute[]).find((route) => API_ROUTES[route] === path);
+};
+
+const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Node request handler for the `/api/*` routes. Validates and rate-limits the
+ * request, then runs the model pipeline and streams its progress back as
+ * newline-delimited JSON events (`services/apiProtocol`). Closing the
+ * connection aborts the model call. The provider is injected so the handler
+ * can run against the fixture provider or a stub.
+ */
+export const createApiHandler = ({
+  provider,
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  rateLimits = {},
+  trustProxy = false,
+  cache: cacheOptions = {},
+  log = (record) => console.log(JSON.stringify(record)),
+}: ApiHandlerOptions) => {
+  const limiters = Object.fromEntries(
+    (Object.keys(API_ROUTES) as ApiRoute[]).map((route) => [
+      route,
+      createRateLimiter({ limit: rateLimits[route] ?? DEFAULT_RATE_LIMITS[route], windowMs: RATE_LIMIT_WINDOW_MS }),
+    ])
+  ) as Record<ApiRoute, RateLimiter>;
+
+  const pruneTimer = setInterval(() => Object.values(limiters).forEach((limiter) => limiter.prune()), RATE_LIMIT_WINDOW_MS);
+  pruneTimer.unref();
+
+  const cache = createDiagramCache(provider, { ...DEFAULT_CACHE_OPTIONS, ...cacheOptions });
+
+  const run = (route: ApiRoute, body: unknown, signal: AbortSignal, emit: (event: StreamEvent<unknown>) => void) => {
+    const image = parseImage(body);
+    // Missing or unknown profile fields fall back to the defaults
+    const profile = normalizeProfile((body as { profile?: unknown } | null)?.profile);
+    switch (route) {
+      case "analyze":
+        return cache.analysis(image, profile, (body as AnalyzeRequestBody).refresh === true, () =>
+          analyzeDiagram(provider, image, profile, { signal, onPartial: (data) => emit({ type: "partial", data }) })
+        );
+      case "moreQuestions": {
+        const settings = normalizeQuizSettings((body as MoreQuestionsRequestBody).settings);
+        return cache.moreQuestions(image, profile, settings, parseSeen(body), (count, exclude) =>
+          generateQuiz(provider, image, profile, { ...settings, count }, { signal, exclude })
+        );
+      }
+      case "tutor":
+        return answerTutorQuestion(provider, image, parseTutorRequest(body), {
+          signal,
+          onText: (data) => emit({ type: "text", data }),
+        });
+      case "rewriteSection":
+        return rewriteExplanationSection(provider, image, parseRewriteRequest(body), { signal });
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const client = clientId(req, trustProxy);
+    const route = routeFor(req.url);
+    const usage: UsageRecord = {
+      time: new Date(startedAt).toISOString(),
+      client,
+      route: req.url ?? "",
+      status: 200,
+      outcome: "ok",
+      durationMs: 0,
+      requestBytes: 0,
+      provider: provider.name,
+      model: provider.model,
+    };
+    const finish = (patch: Partial<UsageRecord>) => log({ ...usage, ...patch, durationMs: Date.now() - startedAt });
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      if (!route) throw new RequestError(404, { kind: "unknown", message: "Not found." });
+      if (req.method !== "POST") throw new RequestError(405, { kind: "unknown", message: "Use POST." }, { Allow: "POST" });
+
+      const decision = limiters[route].take(client);
+      if (!decision.allowed) {
+        const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+        throw new RequestError(
+          429,
+          { kind: "quota", message: `Too many requests. Please wait ${retryAfter}s and try again.` },
+          { "Retry-After": String(retryAfter) }
+        );
+      }
+
+      const { body, bytes } = await readBody(req, maxBodyBytes);
+      usage.requestBytes = bytes;
+
+      // Validate before committing to a streamed 200 so bad input gets a real status code
+      parseImage(body);
+      if (route === "tutor") parseTutorRequest(body);
+      if (route === "rewriteSection") parseRewriteRequest(body);
+
+      res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" });
+      const emit = (event: StreamEvent<unknown>) => res.write(`${JSON.stringify(event)}\n`);
+
+      try {
+        const data = await run(route, body, controller.signal, emit);
+        emit({ type: "result", data });
+        res.end();
+        const fromCache = route === "analyze" && (data as AnalysisResponse).cachedAt !== undefined;
+        finish({ outcome: fromCache ? "cached" : "ok" });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          finish({ outcome: "aborted", errorKind: "cancelled" });
+          return;
+        }
+        const failure: ModelServiceError = classifyError(error, "The request failed. Please try again.");
+        console.error(`${route} failed:`, error);
+        emit({ type: "error", error: { kind: failure.kind, message: failure.message } });
+        res.end();
+        finish({ outcome: "error", errorKind: failure.kind });
+      }
+    } catch (error) {
+      if (error instanceof RequestError) {
+        sendJson(res, error.status, { error: error.payload }, error.headers);
+        finish({ status: error.status, outcome: "rejected", errorKind: error.payload.kind });
+        return;
+      }
+      console.error("Unexpected API error:", error);
+      if (!res.headersSent) sendJson(res, 500, { error: { kind: "unknown", message: "Internal server error." } });
+      else res.end();
+      finish({ status: 500, outcome: "error", errorKind: "unknown" });
+    }
+  };
+};
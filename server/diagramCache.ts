@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import { AnalysisResult, AudienceProfile, QuizQuestion, QuizSettings } from "../types";
+import {
+  ANALYSIS_QUIZ_COUNT,
+  QUIZ_ONLY_SCHEMA,
+  buildAnalyzePrompt,
+  buildQuizSystemInstruction,
+  buildResponseSchema,
+  buildSystemInstruction,
+} from "../services/prompts";
+import { DiagramImage, ModelProvider } from "../services/providers";
+import { isNearDuplicate, mergeIntoBank } from "../services/questionBank";
+import { matchesQuizSettings } from "../services/quizSettings";
+import { ResponseCacheOptions, createResponseCache } from "./responseCache";
+
+// Bump when the cached shapes change in a way old entries can't satisfy.
+const CACHE_FORMAT_VERSION = 3;
+
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+
+/**
+ * Caches analyses by a hash of the image bytes plus everything that shapes
+ * the model's answer (provider, model, and the prompts and schema built for
+ * the audience profile), so editing a prompt, switching models or asking for
+ * another language never serves a stale answer. Alongside each
+ * diagram it keeps a pool of every quiz question generated for it, which
+ * grows with each "more questions" request and is shared by every client.
+ */
+export const createDiagramCache = (provider: ModelProvider, options: ResponseCacheOptions) => {
+  const analyses = createResponseCache<AnalysisResult>(options);
+  const pools = createResponseCache<QuizQuestion[]>(options);
+
+  const promptVersion = (parts: unknown[]) =>
+    sha256(JSON.stringify([CACHE_FORMAT_VERSION, provider.name, provider.model, ...parts]));
+  const imageHash = (image: DiagramImage) => sha256(Buffer.from(image.base64Data, "base64"));
+
+  const analysisKey = (image: DiagramImage, profile: AudienceProfile) =>
+    `${imageHash(image)}:${promptVersion([buildSystemInstruction(profile), buildAnalyzePrompt(profile), buildResponseSchema(profile)])}`;
+  // Quiz prompts only depend on grade band and language, so other profile changes share a pool
+  const poolKey = (image: DiagramImage, profile: AudienceProfile) =>
+    `${imageHash(image)}:${promptVersion([buildQuizSystemInstruction({ count: ANALYSIS_QUIZ_COUNT, profile }), QUIZ_ONLY_SCHEMA])}`;
+
+  /** Adds questions that aren't near-duplicates of pooled ones and refreshes the pool's TTL. */
+  const addToPool = (image: DiagramImage, profile: AudienceProfile, questions: QuizQuestion[]) => {
+    const key = poolKey(image, profile);
+    pools.set(key, mergeIntoBank(pools.get(key)?.value ?? [], questions).bank);
+  };
+
+  /**
+   * Returns the cached analysis, or runs `analyze` and caches its result.
+   * `refresh` skips the lookup and replaces whatever was cached.
+   */
+  const analysis = async (
+    image: DiagramImage,
+    profile: AudienceProfile,
+    refresh: boolean,
+    analyze: () => Promise<AnalysisResult>
+  ): Promise<{ result: AnalysisResult; cachedAt?: number }> => {
+    const key = analysisKey(image, profile);
+    const cached = refresh ? undefined : analyses.get(key);
+    if (cached) return { result: cached.value, cachedAt: cached.storedAt };
+
+    const result = await analyze();
+    // Degraded answers are shown once but not kept, so the next upload gets another try
+    if (!result.validationIssues) analyses.set(key, result);
+    addToPool(image, profile, result.quiz);
+    return { result };
+  };
+
+  /**
+   * Serves questions the client hasn't seen, and that match the requested
+   * difficulty and focus, from the diagram's pool, calling `generate` only
+   * when the pool runs short. `generate` is asked for just the shortfall and
+   * told everything the student has or is about to get, so the model avoids
+   * it. New questions join the pool.
+   */
+  const moreQuestions = async (
+    image: DiagramImage,
+    profile: AudienceProfile,
+    settings: QuizSettings,
+    seen: string[],
+    generate: (count: number, exclude: string[]) => Promise<QuizQuestion[]>
+  ): Promise<QuizQuestion[]> => {
+    const pool = pools.get(poolKey(image, profile))?.value ?? [];
+    const available = pool
+      .filter((q) => matchesQuizSettings(q, settings) && !isNearDuplicate(q.question, seen))
+      .slice(0, settings.count);
+    if (available.length >= settings.count) return available;
+
+    const fresh = await generate(settings.count - available.length, [...seen, ...available.map((q) => q.question)]);
+    addToPool(image, profile, fresh);
+    return [...available, ...fresh].slice(0, settings.count);
+  };
+
+  return { analysis, moreQuestions };
+};
+
+export type DiagramCache = ReturnType<typeof createDiagramCache>;
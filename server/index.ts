@@ -0,0 +1,42 @@
+import { existsSync } from "node:fs";
+import { createServer } from "node:http";
+import { ApiRoute } from "../services/apiProtocol";
+import { getProvider } from "../services/providers";
+import { DEFAULT_CACHE_OPTIONS, DEFAULT_MAX_BODY_BYTES, createApiHandler } from "./apiHandler";
+
+// Local API server: keeps the model key out of the browser bundle. Run it
+// with `npm run server` next to `npm run dev`; Vite proxies `/api` here.
+
+for (const file of [".env.local", ".env"]) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const numberFromEnv = (name: string): number | undefined => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+const rateLimits: Partial<Record<ApiRoute, number>> = {
+  analyze: numberFromEnv("RATE_LIMIT_ANALYZE"),
+  moreQuestions: numberFromEnv("RATE_LIMIT_MORE_QUESTIONS"),
+  tutor: numberFromEnv("RATE_LIMIT_TUTOR"),
+  rewriteSection: numberFromEnv("RATE_LIMIT_REWRITE_SECTION"),
+};
+
+const provider = getProvider();
+const port = numberFromEnv("API_PORT") ?? 8787;
+
+const handler = createApiHandler({
+  provider,
+  maxBodyBytes: numberFromEnv("MAX_UPLOAD_BYTES") ?? DEFAULT_MAX_BODY_BYTES,
+  rateLimits,
+  trustProxy: process.env.TRUST_PROXY === "true",
+  cache: {
+    ttlMs: (numberFromEnv("CACHE_TTL_MINUTES") ?? DEFAULT_CACHE_OPTIONS.ttlMs / 60_000) * 60_000,
+    maxEntries: numberFromEnv("CACHE_MAX_ENTRIES") ?? DEFAULT_CACHE_OPTIONS.maxEntries,
+  },
+});
+
+createServer(handler).listen(port, () => {
+  console.log(`Diagram Scholar API listening on http://localhost:${port} (${provider.name}: ${provider.model})`);
+});
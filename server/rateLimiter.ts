@@ -0,0 +1,43 @@
+export interface RateLimitOptions {
+  /** Requests allowed per window. */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** How long until the oldest request leaves the window; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+/**
+ * Sliding-window limiter keyed by client. Keeps the timestamps of recent
+ * requests in memory, which is plenty for a single local server process.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions) => {
+  const hits = new Map<string, number[]>();
+
+  const take = (key: string, now = Date.now()): RateLimitDecision => {
+    const recent = (hits.get(key) ?? []).filter((time) => now - time < windowMs);
+
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+    }
+
+    recent.push(now);
+    hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  /** Drops clients with no requests left in the window so the map doesn't grow forever. */
+  const prune = (now = Date.now()) => {
+    for (const [key, times] of hits) {
+      if (times.every((time) => now - time >= windowMs)) hits.delete(key);
+    }
+  };
+
+  return { take, prune };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,46 @@
+export interface ResponseCacheOptions {
+  /** How long an entry stays fresh after it was stored. */
+  ttlMs: number;
+  /** Least recently used entries are evicted past this size. */
+  maxEntries: number;
+}
+
+export interface CachedEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * In-memory TTL cache with least-recently-used eviction. A Map keeps
+ * insertion order, so re-inserting on every read keeps the stalest entry first.
+ */
+export const createResponseCache = <T>({ ttlMs, maxEntries }: ResponseCacheOptions) => {
+  const entries = new Map<string, CachedEntry<T>>();
+
+  const isFresh = (entry: CachedEntry<T>, now: number) => now - entry.storedAt < ttlMs;
+
+  const get = (key: string, now = Date.now()): CachedEntry<T> | undefined => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    entries.delete(key);
+    if (!isFresh(entry, now)) return undefined;
+    entries.set(key, entry);
+    return entry;
+  };
+
+  const set = (key: string, value: T, now = Date.now()): CachedEntry<T> => {
+    const entry = { value, storedAt: now };
+    entries.delete(key);
+    entries.set(key, entry);
+
+    for (const [oldKey, oldEntry] of entries) {
+      if (entries.size <= maxEntries && isFresh(oldEntry, now)) break;
+      entries.delete(oldKey);
+    }
+    return entry;
+  };
+
+  return { get, set, delete: (key: string) => entries.delete(key), size: () => entries.size };
+};
+
+export type ResponseCache<T> = ReturnType<typeof createResponseCache<T>>;
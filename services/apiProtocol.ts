@@ -0,0 +1,71 @@
+import {
+  AnalysisResponse,
+  AudienceProfile,
+  ModelErrorKind,
+  PartialAnalysis,
+  QuizQuestion,
+  QuizSettings,
+  SectionRewriteRequest,
+  StructuredExplanation,
+  TutorRequest,
+} from "../types";
+import type { DiagramImage } from "./providers";
+
+// Wire format shared by the API server (server/) and its browser client
+// (services/geminiService.ts). Requests are JSON POSTs; successful responses
+// are newline-delimited JSON events ending in a `result` or `error` event.
+
+export const API_ROUTES = {
+  analyze: "/api/analyze",
+  moreQuestions: "/api/more-questions",
+  tutor: "/api/tutor",
+  rewriteSection: "/api/rewrite-section",
+} as const;
+
+export type ApiRoute = keyof typeof API_ROUTES;
+
+/** The server's rate limits count requests per client over this sliding window. */
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+
+export interface AnalyzeRequestBody {
+  image: DiagramImage;
+  /** Who to write for; the server falls back to the default profile. */
+  profile?: AudienceProfile;
+  /** Skip the server's cache and ask the model again. */
+  refresh?: boolean;
+}
+
+export interface MoreQuestionsRequestBody {
+  image: DiagramImage;
+  profile?: AudienceProfile;
+  /** Count, difficulty and focus; the server clamps them and falls back to the defaults. */
+  settings?: QuizSettings;
+  /** Question texts the student already has, so the pool doesn't repeat them. */
+  seen?: string[];
+}
+
+export interface TutorRequestBody {
+  image: DiagramImage;
+  request: TutorRequest;
+}
+
+export interface RewriteSectionRequestBody {
+  image: DiagramImage;
+  request: SectionRewriteRequest;
+}
+
+export interface ApiErrorPayload {
+  kind: ModelErrorKind;
+  message: string;
+}
+
+export type StreamEvent<T> =
+  | { type: "partial"; data: PartialAnalysis } // analyze only
+  | { type: "text"; data: string } // tutor only: the answer so far
+  | { type: "result"; data: T }
+  | { type: "error"; error: ApiErrorPayload };
+
+export type AnalyzeEvent = StreamEvent<AnalysisResponse>;
+export type MoreQuestionsEvent = StreamEvent<QuizQuestion[]>;
+export type TutorEvent = StreamEvent<string>;
+export type RewriteSectionEvent = StreamEvent<StructuredExplanation[keyof StructuredExplanation]>;
@@ -0,0 +1,79 @@
+import { AudienceProfile, GradeBand } from "../types";
+
+// Audience profiles tailor the prompts (`services/prompts.ts`) to the
+// student. This module has no model dependencies so the UI can share it.
+
+export const GRADE_BANDS: Record<GradeBand, { label: string; audience: string }> = {
+  elementary: { label: "Elementary", audience: "elementary school students (4th-grade reading level)" },
+  "middle-school": { label: "Middle school", audience: "middle school students (7th-grade reading level)" },
+  "high-school": { label: "High school", audience: "high school students (10th-grade reading level)" },
+  university: { label: "University", audience: "university students (undergraduate level, using precise technical vocabulary)" },
+};
+
+export const LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Portuguese",
+  "Italian",
+  "Chinese (Simplified)",
+  "Japanese",
+  "Korean",
+  "Vietnamese",
+  "Arabic",
+  "Hindi",
+];
+
+export const KEY_TERM_RANGE = { min: 3, max: 10 };
+
+// Matches the app's original, fixed prompt
+export const DEFAULT_AUDIENCE_PROFILE: AudienceProfile = {
+  gradeBand: "high-school",
+  language: "English",
+  keyTermCount: 5,
+  tone: "detailed",
+};
+
+/** Coerces untrusted input (a request body, old localStorage) into a valid profile. */
+export const normalizeProfile = (value: unknown): AudienceProfile => {
+  const input = (value ?? {}) as Partial<Record<keyof AudienceProfile, unknown>>;
+  const keyTermCount = Math.round(Number(input.keyTermCount));
+
+  return {
+    gradeBand:
+      typeof input.gradeBand === "string" && Object.hasOwn(GRADE_BANDS, input.gradeBand)
+        ? (input.gradeBand as GradeBand)
+        : DEFAULT_AUDIENCE_PROFILE.gradeBand,
+    // Only known languages reach the prompt, so the field can't smuggle in instructions
+    language: LANGUAGES.find((language) => language === input.language) ?? DEFAULT_AUDIENCE_PROFILE.language,
+    keyTermCount: Number.isFinite(keyTermCount)
+      ? Math.min(KEY_TERM_RANGE.max, Math.max(KEY_TERM_RANGE.min, keyTermCount))
+      : DEFAULT_AUDIENCE_PROFILE.keyTermCount,
+    tone: input.tone === "concise" || input.tone === "detailed" ? input.tone : DEFAULT_AUDIENCE_PROFILE.tone,
+  };
+};
+
+/** Short label for badges, e.g. "High school · Spanish · Concise". */
+export const describeProfile = (profile: AudienceProfile): string =>
+  [GRADE_BANDS[profile.gradeBand].label, profile.language, profile.tone === "concise" ? "Concise" : "Detailed"].join(" · ");
+
+const STORAGE_KEY = "diagram-scholar:audience-profile";
+
+/** The profile last chosen on this device. */
+export const loadAudienceProfile = (): AudienceProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeProfile(JSON.parse(stored)) : DEFAULT_AUDIENCE_PROFILE;
+  } catch {
+    return DEFAULT_AUDIENCE_PROFILE;
+  }
+};
+
+export const saveAudienceProfile = (profile: AudienceProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch {
+    // Private browsing or a full quota: the choice just won't persist
+  }
+};
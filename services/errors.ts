@@ -0,0 +1,165 @@
+import { ModelErrorKind, ValidationIssue } from "../types";
+
+// Typed failures for model calls. Each kind maps to its own remedy on the
+// error screen, and `retryable` marks the transient ones that withRetry
+// (services/retry.ts) tries again with backoff.
+
+export type { ModelErrorKind };
+
+export class ModelServiceError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ModelErrorKind = 'unknown',
+    readonly retryable = false,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = "ModelServiceError";
+  }
+}
+
+export class ApiKeyError extends ModelServiceError {
+  constructor(message = "The API key is missing or was rejected.", cause?: unknown) {
+    super(message, 'api-key', false, cause);
+    this.name = "ApiKeyError";
+  }
+}
+
+export class QuotaExceededError extends ModelServiceError {
+  // How long the API server asked to wait (its Retry-After header), when it said
+  constructor(cause?: unknown, readonly retryAfterMs?: number) {
+    super("The model's usage limit has been reached.", 'quota', true, cause);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class SafetyBlockedError extends ModelServiceError {
+  constructor(readonly reason?: string) {
+    super("The model declined to respond to this content.", 'safety');
+    this.name = "SafetyBlockedError";
+  }
+}
+
+export class NetworkError extends ModelServiceError {
+  constructor(cause?: unknown) {
+    super("Couldn't reach the model service.", 'network', true, cause);
+    this.name = "NetworkError";
+  }
+}
+
+export class ServiceUnavailableError extends ModelServiceError {
+  constructor(cause?: unknown) {
+    super("The model service is temporarily unavailable.", 'unavailable', true, cause);
+    this.name = "ServiceUnavailableError";
+  }
+}
+
+/** The image was understood but isn't something the app can explain. */
+export class NotADiagramError extends ModelServiceError {
+  constructor(readonly reason: string) {
+    super(reason || "This image doesn't look like a diagram.", 'not-a-diagram');
+    this.name = "NotADiagramError";
+  }
+}
+
+export class TimeoutError extends ModelServiceError {
+  constructor(cause?: unknown) {
+    super("The model took too long to respond.", 'timeout', false, cause);
+    this.name = "TimeoutError";
+  }
+}
+
+/** The caller aborted the request; never shown to the user as a failure. */
+export class CancelledError extends ModelServiceError {
+  constructor(cause?: unknown) {
+    super("The request was cancelled.", 'cancelled', false, cause);
+    this.name = "CancelledError";
+  }
+}
+
+export class ModelOutputError extends ModelServiceError {
+  constructor(message: string, readonly issues: ValidationIssue[] = [], cause?: unknown) {
+    // A fresh generation usually comes back well-formed
+    super(message, 'malformed-output', true, cause);
+    this.name = "ModelOutputError";
+  }
+}
+
+/** Maps an HTTP status from a model endpoint to the matching error. */
+export const errorForStatus = (status: number, cause?: unknown, retryAfterMs?: number): ModelServiceError => {
+  if (status === 401 || status === 403) return new ApiKeyError("The API key was rejected.", cause);
+  if (status === 429) return new QuotaExceededError(cause, retryAfterMs);
+  if (status >= 500) return new ServiceUnavailableError(cause);
+  return new ModelServiceError(`The model service rejected the request (${status}).`, 'unknown', false, cause);
+};
+
+// What fetch rejects with when the connection fails: Node, Chrome, Firefox and Safari
+const FETCH_FAILURE = /^(fetch failed|Failed to fetch|NetworkError when attempting to fetch resource|Load failed)/;
+
+/** A fetch that never got a response, as opposed to a TypeError from a bug. */
+const isFetchFailure = (error: unknown): boolean => error instanceof TypeError && FETCH_FAILURE.test(error.message);
+
+/**
+ * Turns whatever a provider threw into a ModelServiceError. Aborted signals
+ * reject with a DOMException named after their reason; SDK errors carry an
+ * HTTP `status`; fetch reports connection loss as a TypeError with a
+ * runtime-specific message; a bad JSON body surfaces as a SyntaxError.
+ */
+export const classifyError = (error: unknown, fallbackMessage: string): ModelServiceError => {
+  if (error instanceof ModelServiceError) return error;
+
+  if (error instanceof DOMException) {
+    if (error.name === 'TimeoutError') return new TimeoutError(error);
+    if (error.name === 'AbortError') return new CancelledError(error);
+  }
+
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return errorForStatus(status, error);
+
+  if (isFetchFailure(error) || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new NetworkError(error);
+  }
+  if (error instanceof SyntaxError) {
+    return new ModelOutputError("The model's answer was not valid JSON.", [], error);
+  }
+  return new ModelServiceError(fallbackMessage, 'unknown', false, error);
+};
+
+const errorForKind = (kind: ModelErrorKind, message: string, retryAfterMs?: number): ModelServiceError => {
+  switch (kind) {
+    case 'api-key':
+      return new ApiKeyError(message);
+    case 'quota':
+      return new QuotaExceededError(undefined, retryAfterMs);
+    case 'safety':
+      return new SafetyBlockedError();
+    case 'network':
+      return new NetworkError();
+    case 'unavailable':
+      return new ServiceUnavailableError();
+    case 'not-a-diagram':
+      return new NotADiagramError(message);
+    case 'malformed-output':
+      return new ModelOutputError(message);
+    case 'timeout':
+      return new TimeoutError();
+    case 'cancelled':
+      return new CancelledError();
+    default:
+      return new ModelServiceError(message, kind);
+  }
+};
+
+/**
+ * Rebuilds an error the API server reported as its typed subclass, so it
+ * keeps its kind for the error screen and stays retryable where it was.
+ */
+export const errorFromPayload = (
+  { kind, message }: { kind: ModelErrorKind; message: string },
+  retryAfterMs?: number
+): ModelServiceError => {
+  const error = errorForKind(kind, message, retryAfterMs);
+  // The server's message can be more specific, e.g. how long its rate limit lasts
+  error.message = message;
+  return error;
+};
@@ -0,0 +1,149 @@
+import {
+  ExplanationHistory,
+  ExplanationSection,
+  PartialExplanation,
+  RelationshipStep,
+  RewriteStyle,
+  SectionVersion,
+  StructuredExplanation,
+} from "../types";
+import { DEFINITION_LINE } from "./hotspots";
+
+// The sections of an explanation, in reading order, with the headings the
+// app shows for them. Analyses saved before explanations had sections are
+// converted on load so everything downstream sees one shape.
+
+export const EXPLANATION_SECTIONS: Record<keyof StructuredExplanation, string> = {
+  mainPurpose: "Main Purpose",
+  keyTerms: "Key Terms & Concepts",
+  components: "Key Components",
+  howItWorks: "How It Works",
+  summary: "Summary",
+};
+
+export const EMPTY_EXPLANATION: StructuredExplanation = { mainPurpose: "", keyTerms: [], components: [], howItWorks: "", summary: "" };
+
+// The ways a student can ask for a section in other words. `instruction`
+// goes into the rewrite prompt; `version` labels the result in the history.
+export const REWRITE_STYLES: Record<RewriteStyle, { label: string; version: string; instruction: string }> = {
+  simpler: {
+    label: "Simplify",
+    version: "Simpler",
+    instruction: "Explain it more simply, for a student who found it hard to follow: shorter sentences, everyday words, and no new jargon.",
+  },
+  deeper: {
+    label: "Go deeper",
+    version: "Deeper",
+    instruction: "Go into more depth, for a student who understood it and wants more: the underlying mechanisms, precise terminology and the reasons behind each point.",
+  },
+  example: {
+    label: "Give an example",
+    version: "With example",
+    instruction: "Keep the explanation at the same level and add a concrete, real-world example the student will recognize.",
+  },
+};
+
+/** The explanation as one Markdown document, e.g. for the tutor prompt or search. */
+export const explanationToMarkdown = (explanation: PartialExplanation): string =>
+  [
+    explanation.mainPurpose && `### ${EXPLANATION_SECTIONS.mainPurpose}\n${explanation.mainPurpose}`,
+    explanation.keyTerms?.length &&
+      `### ${EXPLANATION_SECTIONS.keyTerms}\n${explanation.keyTerms.map((entry) => `- **${entry.term ?? ""}**: ${entry.definition ?? ""}`).join("\n")}`,
+    explanation.components?.length &&
+      `### ${EXPLANATION_SECTIONS.components}\n${explanation.components.map((entry) => `- **${entry.name ?? ""}**: ${entry.role ?? ""}`).join("\n")}`,
+    explanation.howItWorks && `### ${EXPLANATION_SECTIONS.howItWorks}\n${explanation.howItWorks}`,
+    explanation.summary && `### ${EXPLANATION_SECTIONS.summary}\n${explanation.summary}`,
+  ].filter(Boolean).join("\n\n");
+
+/** The names of the key terms and components, which hotspots and quiz topics refer to. */
+export const explanationTerms = (explanation: PartialExplanation): string[] =>
+  [
+    ...(explanation.keyTerms ?? []).map((entry) => entry.term),
+    ...(explanation.components ?? []).map((entry) => entry.name),
+  ].filter((term): term is string => !!term?.trim());
+
+/** "Source → Target", or whichever end is named; empty for a step saved before steps had ends. */
+export const stepRoute = (step: Partial<RelationshipStep>): string =>
+  [step.source, step.target].filter((end) => end?.trim()).join(" → ");
+
+/** The steps as a numbered list, e.g. for the tutor prompt. */
+export const relationshipsToText = (steps: RelationshipStep[]): string =>
+  steps.map((step, i) => `${i + 1}. ${stepRoute(step) ? `${stepRoute(step)}: ` : ""}${step.description}`).join("\n");
+
+const HEADER_LINE = /^#{1,3}\s+.*$/m;
+
+const definitions = (lines: string[]) =>
+  lines.flatMap((line) => {
+    const match = line.match(DEFINITION_LINE);
+    return match ? [{ name: match[1].trim(), text: line.slice(match[0].length).trim() }] : [];
+  });
+
+/**
+ * Splits an explanation written as one Markdown document, as analyses were
+ * before sections, along its "###" headers. The model was asked for the
+ * sections in a fixed order but translated the headers, so they are matched
+ * by position; anything that doesn't fit that shape becomes the main purpose.
+ */
+export const fromLegacyMarkdown = (markdown: string): StructuredExplanation => {
+  const sections = markdown
+    .split(HEADER_LINE)
+    .map((section) => section.trim())
+    .filter(Boolean);
+
+  if (sections.length < 5) {
+    const lines = markdown.split("\n");
+    return {
+      ...EMPTY_EXPLANATION,
+      mainPurpose: lines.filter((line) => !DEFINITION_LINE.test(line) && !HEADER_LINE.test(line)).join("\n").trim(),
+      keyTerms: definitions(lines).map(({ name, text }) => ({ term: name, definition: text })),
+    };
+  }
+
+  const [mainPurpose, keyTerms, components, howItWorks, ...summary] = sections;
+  const componentLines = definitions(components.split("\n"));
+  return {
+    mainPurpose,
+    keyTerms: definitions(keyTerms.split("\n")).map(({ name, text }) => ({ term: name, definition: text })),
+    // Components written as plain bullets are kept as prose ahead of how it works
+    components: componentLines.map(({ name, text }) => ({ name, role: text })),
+    howItWorks: componentLines.length > 0 ? howItWorks : `${components}\n\n${howItWorks}`,
+    summary: summary.join("\n\n"),
+  };
+};
+
+/**
+ * Adds a rewritten section to the history and makes it the one shown. The
+ * first rewrite of a section also records the wording it replaces, so the
+ * student can always go back to the original.
+ */
+export const addSectionVersion = <K extends ExplanationSection>(
+  history: ExplanationHistory,
+  explanation: StructuredExplanation,
+  section: K,
+  style: RewriteStyle,
+  value: StructuredExplanation[K]
+): ExplanationHistory => {
+  const versions: SectionVersion<K>[] = (history[section]?.versions as SectionVersion<K>[] | undefined) ?? [
+    { style: null, value: explanation[section], createdAt: Date.now() },
+  ];
+  const next = [...versions, { style, value, createdAt: Date.now() }];
+  return { ...history, [section]: { versions: next, current: next.length - 1 } };
+};
+
+/** Shows another version of a section; `index` is clamped to the versions there are. */
+export const selectSectionVersion = (history: ExplanationHistory, section: ExplanationSection, index: number): ExplanationHistory => {
+  const entry = history[section];
+  if (!entry) return history;
+  return { ...history, [section]: { ...entry, current: Math.min(Math.max(index, 0), entry.versions.length - 1) } };
+};
+
+/** The explanation with each section in the version the history says is shown. */
+export const currentExplanation = (explanation: StructuredExplanation, history: ExplanationHistory): StructuredExplanation => {
+  const current = { ...explanation };
+  for (const section of Object.keys(EXPLANATION_SECTIONS) as ExplanationSection[]) {
+    const entry = history[section];
+    const version = entry?.versions[entry.current];
+    if (version) (current as Record<ExplanationSection, unknown>)[section] = version.value;
+  }
+  return current;
+};
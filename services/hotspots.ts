@@ -0,0 +1,29 @@
+// Links between hotspots on the diagram and the bold terms in its explanation.
+// A hotspot's term and a bold term match when their keys do, so "Sun" on the
+// image lights up "**sun**" in the text and the other way round.
+
+/** Case- and punctuation-insensitive identity of a term: "Evaporation:" -> "evaporation". */
+export const termKey = (term: string): string =>
+  term
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+// "- **Evaporation**: Liquid water..." defines Evaporation
+export const DEFINITION_LINE = /^\s*[-*+]\s+\*\*(.+?)\*\*\s*[:\u2013\u2014-]/;
+
+/** Element id of the place a term is defined (or first mentioned) in the explanation. */
+export const termAnchorId = (term: string): string => `term-${termKey(term).replace(/ /g, "-")}`;
+
+const FLASH_CLASSES = ["ring-2", "ring-amber-400"];
+const FLASH_MS = 1500;
+
+/** Scrolls the explanation to a term's definition and briefly rings it; false when the term isn't in it. */
+export const scrollToTerm = (term: string): boolean => {
+  const anchor = document.getElementById(termAnchorId(term));
+  if (!anchor) return false;
+  anchor.scrollIntoView({ behavior: "smooth", block: "center" });
+  anchor.classList.add(...FLASH_CLASSES);
+  setTimeout(() => anchor.classList.remove(...FLASH_CLASSES), FLASH_MS);
+  return true;
+};
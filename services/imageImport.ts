@@ -0,0 +1,129 @@
+// Ways to bring in a diagram besides the file picker: clipboard paste, an
+// image URL and the device camera. Each produces a File for App's
+// `processFile`, so every source goes through the same editor and checks.
+
+const URL_TIMEOUT_MS = 20_000;
+// Well past the largest upload the server takes; the editor scales it down
+export const MAX_IMPORT_BYTES = 40 * 1024 * 1024;
+
+const SIGNATURES: { mimeType: string; bytes: (number | null)[] }[] = [
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "image/webp", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46] },
+];
+
+/** The type the file's first bytes announce, for servers that send no or a generic Content-Type. */
+const sniffType = async (blob: Blob): Promise<string | undefined> => {
+  const head = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  return SIGNATURES.find(({ bytes }) => bytes.every((byte, i) => byte === null || head[i] === byte))?.mimeType;
+};
+
+const isSupportedType = (mimeType: string) => mimeType.startsWith("image/") || mimeType === "application/pdf";
+
+/** The first image in a paste, e.g. a screenshot; null when the clipboard holds only text. */
+export const imageFromClipboard = (data: DataTransfer | null): File | null =>
+  Array.from(data?.files ?? []).find((file) => isSupportedType(file.type)) ?? null;
+
+/** Parses what was typed into the URL field, or throws with what's wrong with it. */
+export const parseImageUrl = (input: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new Error("That doesn't look like a web address. Paste the full link, starting with https://");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Only http:// and https:// links can be imported.");
+  }
+  return url;
+};
+
+// The last path segment, decoded; a malformed escape like "%E0%A4%A" keeps it as written
+const fileNameFromPath = (pathname: string): string => {
+  const segment = pathname.split("/").pop() || "";
+  try {
+    return decodeURIComponent(segment) || "image";
+  } catch {
+    return segment || "image";
+  }
+};
+
+/** Downloads an image (or PDF) from the web. Throws an Error whose message can be shown as is. */
+export const fetchImageFromUrl = async (input: string, signal?: AbortSignal): Promise<File> => {
+  const url = parseImageUrl(input);
+  const deadline = AbortSignal.timeout(URL_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: "cors", signal: signal ? AbortSignal.any([signal, deadline]) : deadline });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    if (deadline.aborted) throw new Error("The site took too long to send the image.");
+    // The browser reports a CORS refusal exactly like a network failure
+    throw new Error(
+      "Couldn't download that image. The site may not let other pages load its images (CORS), or it may be offline. Save the image and upload it instead."
+    );
+  }
+  if (!response.ok) {
+    throw new Error(`The site answered with an error (${response.status}${response.statusText ? ` ${response.statusText}` : ""}). Check the link.`);
+  }
+  if (Number(response.headers.get("Content-Length")) > MAX_IMPORT_BYTES) {
+    throw new Error("That file is too large to import.");
+  }
+
+  const blob = await response.blob();
+  if (blob.size > MAX_IMPORT_BYTES) throw new Error("That file is too large to import.");
+  const declared = blob.type.split(";")[0].trim().toLowerCase();
+  const mimeType = isSupportedType(declared) ? declared : await sniffType(blob);
+  if (!mimeType) {
+    throw new Error(
+      declared.startsWith("text/html")
+        ? "That link leads to a web page, not an image. Right-click the image and copy its address instead."
+        : `That link isn't an image or a PDF${declared ? ` (it's ${declared})` : ""}.`
+    );
+  }
+
+  return new File([blob], fileNameFromPath(url.pathname), { type: mimeType });
+};
+
+export type CameraFacing = "environment" | "user";
+
+/** Opens the camera, or throws an Error explaining why it couldn't be. */
+export const openCamera = async (facing: CameraFacing): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error("This browser can't use the camera here. Cameras only work on https:// pages or localhost.");
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    });
+  } catch (error) {
+    const name = error instanceof DOMException ? error.name : "";
+    if (name === "NotAllowedError" || name === "SecurityError") {
+      throw new Error("Camera access was blocked. Allow it in your browser's site settings, then try again.");
+    }
+    if (name === "NotFoundError" || name === "OverconstrainedError") throw new Error("No camera was found on this device.");
+    if (name === "NotReadableError") throw new Error("The camera is in use by another app. Close it and try again.");
+    throw new Error("Couldn't start the camera.");
+  }
+};
+
+/** The current video frame as a JPEG file. */
+export const captureFrame = (video: HTMLVideoElement): Promise<File> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")!.drawImage(video, 0, 0);
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(new File([blob], `camera-${new Date().toISOString().replace(/[:.]/g, "-")}.jpg`, { type: "image/jpeg" }))
+          : reject(new Error("Couldn't capture a photo from the camera.")),
+      "image/jpeg",
+      0.95
+    );
+  });
@@ -0,0 +1,180 @@
+import { BoundingBox, ImageEdits, ImageOutputSettings } from "../types";
+
+// Browser-side preparation of uploads: orientation, crop, straighten and
+// contrast fixes, then scaling and JPEG compression to the device's output
+// settings. Smaller payloads upload faster and fit more analyses in the
+// library, and the model doesn't need a 12-megapixel phone photo.
+
+export type ImageSource = HTMLImageElement | ImageBitmap;
+
+export const NO_EDITS: ImageEdits = { rotation: 0, straighten: 0, crop: null, enhance: false };
+
+export const STRAIGHTEN_LIMIT = 15; // Degrees either way
+
+export const MAX_SIDE_OPTIONS = [1024, 1600, 2048, 3072];
+
+export const QUALITY_OPTIONS = [
+  { label: "Smaller file", quality: 0.7 },
+  { label: "Balanced", quality: 0.85 },
+  { label: "Sharper", quality: 0.92 },
+];
+
+export const DEFAULT_OUTPUT_SETTINGS: ImageOutputSettings = { maxSide: 1600, quality: 0.85 };
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load that image."));
+    image.src = src;
+  });
+
+/** Decodes an uploaded image file upright, following its EXIF orientation. */
+export const readImageFile = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error("Could not read that image. It may be damaged or in an unsupported format.");
+  }
+};
+
+export const sourceSize = (source: ImageSource) =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/** Spreads the image's tones over the full range, ignoring the darkest and lightest 0.5% of pixels. */
+const enhanceContrast = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext("2d")!;
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+  }
+  const clip = (data.length / 4) * 0.005;
+  let low = 0;
+  for (let seen = 0; low < 255 && (seen += histogram[low]) < clip; low++);
+  let high = 255;
+  for (let seen = 0; high > 0 && (seen += histogram[high]) < clip; high--);
+  // Nearly flat images (a blank page) would only have their noise amplified
+  if (high - low < 16) return;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      data[i + channel] = Math.min(255, Math.max(0, (data[i + channel] - low) * scale));
+    }
+  }
+  context.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Draws `source` with `edits` applied onto a canvas whose longest side is at
+ * most `maxSide`. Straightening zooms in just enough that no blank corners
+ * show; `edits.crop` is taken from the rotated and straightened image.
+ */
+export const renderEdited = (source: ImageSource, edits: ImageEdits, maxSide: number): HTMLCanvasElement => {
+  const { width, height } = sourceSize(source);
+  const [orientedWidth, orientedHeight] = edits.rotation % 180 ? [height, width] : [width, height];
+  const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+
+  const tilt = (Math.abs(edits.straighten) * Math.PI) / 180;
+  const zoom = Math.max(
+    (orientedWidth * Math.cos(tilt) + orientedHeight * Math.sin(tilt)) / orientedWidth,
+    (orientedWidth * Math.sin(tilt) + orientedHeight * Math.cos(tilt)) / orientedHeight
+  );
+
+  const cropWidth = crop.width * orientedWidth;
+  const cropHeight = crop.height * orientedHeight;
+  const scale = Math.min(1, maxSide / Math.max(cropWidth, cropHeight));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+  const context = canvas.getContext("2d")!;
+  // JPEG has no transparency; give transparent PNGs the white of a page rather than black
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingQuality = "high";
+
+  context.scale(scale, scale);
+  context.translate(-crop.x * orientedWidth, -crop.y * orientedHeight);
+  context.translate(orientedWidth / 2, orientedHeight / 2);
+  context.rotate(((edits.rotation + edits.straighten) * Math.PI) / 180);
+  context.scale(zoom, zoom);
+  context.drawImage(source, -width / 2, -height / 2, width, height);
+
+  if (edits.enhance) enhanceContrast(canvas);
+  return canvas;
+};
+
+// Masks reach a little past the detected text so no letter edges peek out
+const MASK_PADDING = 0.006;
+
+/** Draws the image and fills each box with the colour just outside it, hiding the text printed there. */
+export const drawMaskedImage = (canvas: HTMLCanvasElement, image: ImageSource, boxes: BoundingBox[]) => {
+  const { width, height } = sourceSize(image);
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) return;
+  context.drawImage(image, 0, 0);
+
+  for (const box of boxes) {
+    const x = Math.max(0, (box.x - MASK_PADDING) * width);
+    const y = Math.max(0, (box.y - MASK_PADDING) * height);
+    const w = Math.min(width - x, (box.width + 2 * MASK_PADDING) * width);
+    const h = Math.min(height - y, (box.height + 2 * MASK_PADDING) * height);
+    const [r, g, b] = context.getImageData(Math.max(0, x - 2), Math.max(0, y - 2), 1, 1).data;
+    context.fillStyle = `rgb(${r}, ${g}, ${b})`;
+    context.fillRect(x, y, w, h);
+  }
+};
+
+/** `renderEdited` encoded as a JPEG data URL at the output settings. */
+export const encodeImage = (source: ImageSource, edits: ImageEdits, settings: ImageOutputSettings): string =>
+  renderEdited(source, edits, settings.maxSide).toDataURL("image/jpeg", settings.quality);
+
+/** Applies edits to an image given as a data URL, e.g. cropping a rendered PDF page. */
+export const processImage = async (src: string, edits: ImageEdits, settings: ImageOutputSettings): Promise<string> =>
+  encodeImage(await loadImage(src), edits, settings);
+
+/** Size of the bytes a base64 data URL encodes. */
+export const dataUrlBytes = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0);
+};
+
+export const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** Coerces untrusted input (old localStorage) into valid output settings. */
+export const normalizeOutputSettings = (value: unknown): ImageOutputSettings => {
+  const input = (value ?? {}) as Partial<Record<keyof ImageOutputSettings, unknown>>;
+  return {
+    maxSide: MAX_SIDE_OPTIONS.find((side) => side === input.maxSide) ?? DEFAULT_OUTPUT_SETTINGS.maxSide,
+    quality: QUALITY_OPTIONS.find((option) => option.quality === input.quality)?.quality ?? DEFAULT_OUTPUT_SETTINGS.quality,
+  };
+};
+
+const STORAGE_KEY = "diagram-scholar:image-output";
+
+/** The output settings last chosen on this device. */
+export const loadOutputSettings = (): ImageOutputSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeOutputSettings(JSON.parse(stored)) : DEFAULT_OUTPUT_SETTINGS;
+  } catch {
+    return DEFAULT_OUTPUT_SETTINGS;
+  }
+};
+
+export const saveOutputSettings = (settings: ImageOutputSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private browsing or a full quota: the choice just won't persist
+  }
+};
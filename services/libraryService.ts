@@ -0,0 +1,201 @@
+import { AnalysisResult, ChatMessage, ExplanationHistory, LibraryEntry, MultipleChoiceQuestion, QuizAttempt, QuizQuestion, RelationshipStep, StructuredExplanation } from "../types";
+import { explanationToMarkdown, fromLegacyMarkdown, stepRoute } from "./explanation";
+import { mergeIntoBank } from "./questionBank";
+
+// Local study library backed by IndexedDB, so analyses survive reloads and
+// can be reopened without another model call.
+
+const DB_NAME = "diagram-scholar";
+const DB_VERSION = 1;
+const STORE = "library";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// Questions saved before there were other question types are all multiple choice
+const withType = (questions: QuizQuestion[]): QuizQuestion[] =>
+  questions.map((q) => (q.type ? q : { ...(q as Omit<MultipleChoiceQuestion, "type">), type: "multiple-choice" }));
+
+const legacyRelationships = (result: AnalysisResult): RelationshipStep[] => {
+  const description = (result as { relationshipDescription?: string }).relationshipDescription;
+  return description ? [{ source: "", target: "", description }] : [];
+};
+
+// Fills in fields added after an entry was first saved.
+const normalize = (entry: LibraryEntry): LibraryEntry => {
+  const quizzes = entry.quizzes.map(withType);
+  return {
+    ...entry,
+    result: {
+      ...entry.result,
+      // Explanations saved before sections are one Markdown document
+      explanation: typeof (entry.result.explanation as unknown) === "string"
+        ? fromLegacyMarkdown(entry.result.explanation as unknown as string)
+        : entry.result.explanation,
+      // Analyses saved before steps have one relationshipDescription
+      relationships: entry.result.relationships ?? legacyRelationships(entry.result),
+      quiz: withType(entry.result.quiz),
+    },
+    quizzes,
+    chat: entry.chat ?? [],
+    explanationHistory: entry.explanationHistory ?? {},
+    bank: entry.bank ? withType(entry.bank) : mergeIntoBank([], quizzes.flat()).bank,
+  };
+};
+
+export const getEntry = async (id: string): Promise<LibraryEntry | undefined> => {
+  const entry = await withStore("readonly", (store) => store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  return entry && normalize(entry);
+};
+
+const putEntry = async (entry: LibraryEntry): Promise<LibraryEntry> => {
+  await withStore("readwrite", (store) => store.put(entry));
+  return entry;
+};
+
+// Applies `change` to a stored entry and bumps its updatedAt timestamp. The read and
+// the write share one readwrite transaction, which IndexedDB runs one at a time per
+// store, so updates App fires together (a new quiz, a chat) can't overwrite each other.
+const updateEntry = async (id: string, change: (entry: LibraryEntry) => LibraryEntry): Promise<LibraryEntry> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite");
+    const store = transaction.objectStore(STORE);
+    let updated: LibraryEntry | undefined;
+
+    const read = store.get(id) as IDBRequest<LibraryEntry | undefined>;
+    read.onsuccess = () => {
+      if (!read.result) {
+        reject(new Error("This diagram is no longer in your library."));
+        return;
+      }
+      try {
+        updated = { ...change(normalize(read.result)), updatedAt: Date.now() };
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      store.put(updated);
+    };
+    // A rejection above has already settled the promise, so completing changes nothing
+    transaction.oncomplete = () => {
+      if (updated) resolve(updated);
+    };
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/** Most recently used first. */
+export const listEntries = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore("readonly", (store) => store.getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.map(normalize).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Case-insensitive match against the title and any term in the explanation or quiz. */
+export const matchesQuery = (entry: LibraryEntry, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    entry.title,
+    entry.result.title,
+    explanationToMarkdown(entry.result.explanation),
+    ...entry.result.relationships.map((step) => `${stepRoute(step)} ${step.description}`),
+    ...entry.quizzes.flat().map((q) => q.question),
+  ].join("\n").toLowerCase();
+
+  return needle.split(/\s+/).every((word) => haystack.includes(word));
+};
+
+export const searchEntries = async (query: string): Promise<LibraryEntry[]> =>
+  (await listEntries()).filter((entry) => matchesQuery(entry, query));
+
+export const saveAnalysis = (image: string, result: AnalysisResult): Promise<LibraryEntry> => {
+  const now = Date.now();
+  return putEntry({
+    id: crypto.randomUUID(),
+    title: result.title,
+    image,
+    result,
+    quizzes: [result.quiz],
+    bank: mergeIntoBank([], result.quiz).bank,
+    attempts: [],
+    chat: [],
+    explanationHistory: {},
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Swaps in a fresh analysis of the same image; its quiz becomes the entry's
+ * current quiz. Rewritten sections belonged to the old explanation and are dropped.
+ */
+export const replaceAnalysis = (id: string, result: AnalysisResult): Promise<LibraryEntry> =>
+  updateEntry(id, (entry) => ({
+    ...entry,
+    result,
+    explanationHistory: {},
+    quizzes: [...entry.quizzes, result.quiz],
+    bank: mergeIntoBank(entry.bank, result.quiz).bank,
+  }));
+
+export const renameEntry = (id: string, title: string): Promise<LibraryEntry> =>
+  updateEntry(id, (entry) => ({ ...entry, title: title.trim() || entry.result.title }));
+
+export const deleteEntry = async (id: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+};
+
+/**
+ * Stores a new quiz, generated or sampled from the bank, and makes it the
+ * entry's current quiz. Questions the bank doesn't have yet are added to it.
+ */
+export const addQuiz = (id: string, quiz: QuizQuestion[]): Promise<LibraryEntry> =>
+  updateEntry(id, (entry) => ({
+    ...entry,
+    result: { ...entry.result, quiz },
+    quizzes: [...entry.quizzes, quiz],
+    bank: mergeIntoBank(entry.bank, quiz).bank,
+  }));
+
+export const recordAttempt = (id: string, attempt: Omit<QuizAttempt, "id" | "completedAt">): Promise<LibraryEntry> =>
+  updateEntry(id, (entry) => ({
+    ...entry,
+    attempts: [...entry.attempts, { ...attempt, id: crypto.randomUUID(), completedAt: Date.now() }],
+  }));
+
+/** Stores the explanation as shown, after a section was rewritten or another version picked. */
+export const saveExplanation = (id: string, explanation: StructuredExplanation, explanationHistory: ExplanationHistory): Promise<LibraryEntry> =>
+  updateEntry(id, (entry) => ({ ...entry, result: { ...entry.result, explanation }, explanationHistory }));
+
+export const saveChat = (id: string, chat: ChatMessage[]): Promise<LibraryEntry> =>
+  updateEntry(id, (entry) => ({ ...entry, chat }));
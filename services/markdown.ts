@@ -0,0 +1,179 @@
+// Markdown from the model, parsed into a small tree of the elements the app
+// knows how to show. Anything else — raw HTML, images, footnotes, links to
+// anything but the web or email — is reduced to its text, so rendering the
+// tree can never inject markup or script.
+
+import type { Nodes, PhrasingContent, RootContent } from "mdast";
+import { fromMarkdown } from "mdast-util-from-markdown";
+import { gfmFromMarkdown } from "mdast-util-gfm";
+import { mathFromMarkdown } from "mdast-util-math";
+import { gfm } from "micromark-extension-gfm";
+import { math } from "micromark-extension-math";
+import { normalizeMath } from "./math";
+
+export type MarkdownInline =
+  | { type: "text"; value: string }
+  | { type: "strong" | "emphasis" | "delete"; children: MarkdownInline[] }
+  | { type: "code"; value: string }
+  | { type: "math"; value: string } // TeX, see services/math.ts
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "heading"; depth: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: "code"; value: string }
+  | { type: "math"; value: string } // A display formula
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | { type: "table"; align: ("left" | "right" | "center" | null)[]; rows: MarkdownInline[][][] } // First row is the header
+  | { type: "rule" };
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+/** The plain text of a node and everything under it. */
+const nodeText = (node: Nodes): string => {
+  if ("value" in node) return node.value;
+  if (node.type === "image") return node.alt ?? "";
+  if ("children" in node) return (node.children as Nodes[]).map(nodeText).join("");
+  return "";
+};
+
+const toInlines = (nodes: PhrasingContent[]): MarkdownInline[] =>
+  nodes.flatMap((node): MarkdownInline[] => {
+    switch (node.type) {
+      case "text":
+        return [{ type: "text", value: node.value }];
+      case "strong":
+      case "emphasis":
+      case "delete":
+        return [{ type: node.type, children: toInlines(node.children) }];
+      case "inlineCode":
+        return [{ type: "code", value: node.value }];
+      case "inlineMath":
+        return [{ type: "math", value: node.value }];
+      case "break":
+        return [{ type: "break" }];
+      case "link":
+        return SAFE_LINK.test(node.url)
+          ? [{ type: "link", href: node.url, children: toInlines(node.children) }]
+          : toInlines(node.children);
+      case "html":
+        return []; // A tag; the text around it arrives as separate nodes
+      default:
+        // Images and footnote references: keep whatever text they carry
+        return [{ type: "text", value: nodeText(node) }];
+    }
+  });
+
+const toBlocks = (nodes: RootContent[]): MarkdownBlock[] =>
+  nodes.flatMap((node): MarkdownBlock[] => {
+    switch (node.type) {
+      case "heading":
+        return [{ type: "heading", depth: node.depth, children: toInlines(node.children) }];
+      case "paragraph":
+        return [{ type: "paragraph", children: toInlines(node.children) }];
+      case "list":
+        return [{
+          type: "list",
+          ordered: !!node.ordered,
+          start: node.start ?? 1,
+          items: node.children.map((item) => toBlocks(item.children)),
+        }];
+      case "code":
+        return [{ type: "code", value: node.value }];
+      case "math":
+        return [{ type: "math", value: node.value }];
+      case "blockquote":
+        return [{ type: "blockquote", children: toBlocks(node.children) }];
+      case "table":
+        return [{
+          type: "table",
+          align: node.align ?? [],
+          rows: node.children.map((row) => row.children.map((cell) => toInlines(cell.children))),
+        }];
+      case "thematicBreak":
+        return [{ type: "rule" }];
+      case "html": {
+        const text = node.value
+          .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, "")
+          .replace(/<[^>]*>/g, "")
+          .trim();
+        return text ? [{ type: "paragraph", children: [{ type: "text", value: text }] }] : [];
+      }
+      default:
+        // Definitions, footnote definitions, front matter
+        return [];
+    }
+  });
+
+export const parseMarkdown = (text: string): MarkdownBlock[] =>
+  toBlocks(
+    fromMarkdown(normalizeMath(text), {
+      extensions: [gfm(), math()],
+      mdastExtensions: [gfmFromMarkdown(), mathFromMarkdown()],
+    }).children
+  );
+
+/** The text of inline content without its formatting. */
+export const inlineText = (inlines: MarkdownInline[]): string =>
+  inlines
+    .map((inline) => {
+      switch (inline.type) {
+        case "text":
+        case "code":
+        case "math":
+          return inline.value;
+        case "break":
+          return "\n";
+        default:
+          return inlineText(inline.children);
+      }
+    })
+    .join("");
+
+const blockText = (block: MarkdownBlock): string => {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+      return inlineText(block.children);
+    case "list":
+      return block.items.map((item) => item.map(blockText).join(" ")).join("; ");
+    case "code":
+    case "math":
+      return block.value;
+    case "blockquote":
+      return block.children.map(blockText).join(" ");
+    case "table":
+      return block.rows.map((row) => row.map(inlineText).join(", ")).join("; ");
+    case "rule":
+      return "";
+  }
+};
+
+/** Markdown flattened to one line of plain text, e.g. for print. */
+export const markdownToPlainText = (text: string): string =>
+  parseMarkdown(text).map(blockText).join(" ").replace(/\s+/g, " ").trim();
+
+const inlineStrongTexts = (inlines: MarkdownInline[]): string[] =>
+  inlines.flatMap((inline) =>
+    inline.type === "strong" ? [inlineText(inline.children)] : "children" in inline ? inlineStrongTexts(inline.children) : []
+  );
+
+/** The text of every bold span, in reading order. */
+export const strongTexts = (blocks: MarkdownBlock[]): string[] =>
+  blocks.flatMap((block) => {
+    switch (block.type) {
+      case "heading":
+      case "paragraph":
+        return inlineStrongTexts(block.children);
+      case "list":
+        return block.items.flatMap(strongTexts);
+      case "blockquote":
+        return strongTexts(block.children);
+      case "table":
+        return block.rows.flat().flatMap(inlineStrongTexts);
+      default:
+        return [];
+    }
+  });
@@ -0,0 +1,74 @@
+/// <reference types="vite/client" />
+// TeX math and mhchem chemistry in model output: "$E = mc^2$", "$$...$$" on
+// its own line, and "$\ce{2H2 + O2 -> 2H2O}$". KaTeX is loaded the first time
+// a formula is shown, since most diagrams never need it.
+
+import type Katex from "katex";
+
+type KatexModule = typeof Katex;
+
+export interface MathSegment {
+  type: "text" | "math";
+  value: string; // TeX source for math
+  display: boolean; // A block formula on its own line
+}
+
+// An opening $ can't be followed by a space, nor a closing one follow a space
+// or be followed by a digit, so prices like "$5 and $10" stay text
+const DOLLARS = String.raw`\$\$([\s\S]+?)\$\$|\$(?!\s)([^$\n]*?[^$\s])\$(?!\d)`;
+const MATH = new RegExp(DOLLARS, "g");
+
+// Models also write \(...\), \[...\] and a bare \ce{...}; these are rewritten
+// to dollar form so Markdown parsing and splitMath only need one syntax.
+// Formulas already in dollars are matched too, so a \ce inside isn't wrapped twice.
+const DELIMITERS = new RegExp(String.raw`(${DOLLARS})|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(\\ce\{(?:[^{}]|\{[^{}]*\})*\})`, "g");
+
+/** Rewrites every math delimiter the model might use to `$...$` or `$$...$$`. */
+export const normalizeMath = (text: string): string =>
+  text.replace(DELIMITERS, (match, dollars, _display, _inline, display, inline, chemistry) =>
+    dollars !== undefined ? match
+      : display !== undefined ? `$$${display}$$`
+      : inline !== undefined ? `$${inline}$`
+      : `$${chemistry}$`
+  );
+
+/** Plain text cut into text and formulas, for short strings such as quiz options. */
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  const normalized = normalizeMath(text);
+  let last = 0;
+  for (const match of normalized.matchAll(MATH)) {
+    if (match.index > last) segments.push({ type: "text", value: normalized.slice(last, match.index), display: false });
+    segments.push({ type: "math", value: (match[1] ?? match[2]).trim(), display: match[1] !== undefined });
+    last = match.index + match[0].length;
+  }
+  if (last < normalized.length) segments.push({ type: "text", value: normalized.slice(last), display: false });
+  return segments;
+};
+
+let katex: KatexModule | null = null;
+let katexPromise: Promise<KatexModule> | null = null;
+
+/** KaTeX once it has loaded, so later formulas render without a flash of source. */
+export const loadedKatex = (): KatexModule | null => katex;
+
+/** KaTeX with the mhchem extension and its stylesheet. */
+export const loadKatex = (): Promise<KatexModule> => {
+  katexPromise ??= (async () => {
+    const [module] = await Promise.all([import("katex"), import("katex/dist/katex.min.css")]);
+    await import("katex/contrib/mhchem"); // Registers \ce and \pu
+    katex = module.default;
+    return katex;
+  })().catch((err) => {
+    katexPromise = null; // Let the next formula try again, e.g. after a dropped connection
+    throw err;
+  });
+  return katexPromise;
+};
+
+/**
+ * A formula as KaTeX HTML. Mistakes in the TeX show in red instead of
+ * throwing, and commands that could add links or styles are refused.
+ */
+export const renderMath = (katexModule: KatexModule, tex: string, display: boolean): string =>
+  katexModule.renderToString(tex, { displayMode: display, throwOnError: false, strict: "ignore", trust: false });
@@ -0,0 +1,226 @@
+import {
+  AnalysisResult,
+  AudienceProfile,
+  ExplanationSection,
+  PartialAnalysis,
+  QuizQuestion,
+  QuizRequest,
+  QuizSettings,
+  SectionRewriteRequest,
+  StructuredExplanation,
+  TutorRequest,
+  ValidationIssue,
+} from "../types";
+import { ANALYSIS_QUIZ_COUNT } from "./prompts";
+import { DiagramImage, ModelProvider } from "./providers";
+import { ModelOutputError, classifyError } from "./errors";
+import { RequestOptions, withDeadline, withRetry } from "./retry";
+import { QuizCheckResult, checkAnalysis, checkQuiz, checkSectionRewrite, formatIssues } from "./validation";
+import { isNearDuplicate } from "./questionBank";
+
+// The model pipeline behind the API server: runs a provider call, validates
+// and repairs structured answers (`services/validation`), and retries
+// transient failures. Failures reject with a ModelServiceError subclass from
+// `services/errors`. The browser reaches this through `geminiService.ts`.
+
+const ANALYSIS_TIMEOUT_MS = 90_000;
+const QUIZ_TIMEOUT_MS = 60_000;
+const TUTOR_TIMEOUT_MS = 45_000;
+const REWRITE_TIMEOUT_MS = 45_000;
+
+/**
+ * Moves questions that repeat an excluded one, or an earlier one in the same
+ * answer, to `invalid` so they are re-asked like any other unusable question.
+ */
+const dropRepeats = (checked: QuizCheckResult, exclude: string[] = []): QuizCheckResult => {
+  const known = [...exclude];
+  const result: QuizCheckResult = { ...checked, questions: [], invalid: [...checked.invalid] };
+
+  checked.questions.forEach((question, i) => {
+    if (isNearDuplicate(question.question, known)) {
+      result.invalid.push({
+        raw: question,
+        errors: [{ path: `quiz[${i}].question`, message: `repeats an earlier question: "${question.question}"` }],
+      });
+    } else {
+      result.questions.push(question);
+      known.push(question.question);
+    }
+  });
+  return result;
+};
+
+/**
+ * Re-asks the model for just the questions that failed validation (or never
+ * arrived) and returns the valid ones alongside any replacements. Gives up
+ * after one attempt; the caller reports whatever is still missing.
+ */
+const topUpQuiz = async (
+  provider: ModelProvider,
+  image: DiagramImage,
+  request: QuizRequest,
+  checked: QuizCheckResult,
+  signal: AbortSignal
+): Promise<QuizQuestion[]> => {
+  const missing = request.count - checked.questions.length;
+  if (missing <= 0) return checked.questions;
+
+  const problems = checked.invalid.flatMap((item) => item.errors);
+  const instructions = problems.length > 0
+    ? `Earlier questions were rejected for these problems, so avoid them:\n${formatIssues(problems)}\nRejected questions: ${JSON.stringify(checked.invalid.map((item) => item.raw))}`
+    : undefined;
+  // The questions kept so far join the exclusions, so the replacements are new too
+  const exclude = [...(request.exclude ?? []), ...checked.questions.map((q) => q.question)];
+
+  try {
+    const replacement = dropRepeats(
+      checkQuiz(await provider.generateQuiz(image, { ...request, count: missing, instructions, exclude }, { signal })),
+      exclude
+    );
+    if (replacement.invalid.length > 0) {
+      console.warn(`Replacement questions still invalid:\n${formatIssues(replacement.invalid.flatMap((item) => item.errors))}`);
+    }
+    return [...checked.questions, ...replacement.questions.slice(0, missing)];
+  } catch (error) {
+    if (signal.aborted) throw signal.reason;
+    console.error("Quiz repair request failed:", error);
+    return checked.questions;
+  }
+};
+
+export const analyzeDiagram = async (
+  provider: ModelProvider,
+  image: DiagramImage,
+  profile: AudienceProfile,
+  { onPartial, ...options }: RequestOptions & { onPartial?: (partial: PartialAnalysis) => void } = {}
+): Promise<AnalysisResult> => {
+  const signal = withDeadline(options, ANALYSIS_TIMEOUT_MS);
+  const fallbackMessage = "Failed to analyze the diagram. Please try again.";
+
+  try {
+    const checked = await withRetry(
+      async () => checkAnalysis(await provider.analyze(image, profile, { onPartial, signal })),
+      { signal, fallbackMessage }
+    );
+    if (checked.repairs.length > 0) {
+      console.warn(`Repaired analysis output:\n${formatIssues(checked.repairs)}`);
+    }
+
+    const quiz = await topUpQuiz(
+      provider,
+      image,
+      { count: ANALYSIS_QUIZ_COUNT, profile },
+      dropRepeats({ questions: checked.value.quiz, invalid: checked.invalidQuestions, repairs: [] }),
+      signal
+    );
+
+    const issues: ValidationIssue[] = [...checked.errors];
+    if (quiz.length < ANALYSIS_QUIZ_COUNT) {
+      issues.push({
+        path: "quiz",
+        message: `${ANALYSIS_QUIZ_COUNT - quiz.length} of ${ANALYSIS_QUIZ_COUNT} quiz questions were unusable and have been left out`,
+      });
+    }
+
+    return {
+      ...checked.value,
+      quiz,
+      profile,
+      ...(issues.length > 0 && { validationIssues: issues }),
+    };
+  } catch (error) {
+    const classified = classifyError(error, fallbackMessage);
+    if (classified.kind !== 'cancelled') {
+      console.error(`Analysis Error (${provider.name}/${provider.model}):`, error);
+    }
+    if (classified instanceof ModelOutputError) {
+      console.error(formatIssues(classified.issues));
+    }
+    throw classified;
+  }
+};
+
+export const generateQuiz = async (
+  provider: ModelProvider,
+  image: DiagramImage,
+  profile: AudienceProfile,
+  { count, difficulty, focusTopics }: QuizSettings,
+  { exclude, ...options }: RequestOptions & { exclude?: string[] } = {}
+): Promise<QuizQuestion[]> => {
+  const request: QuizRequest = { count, profile, difficulty, focusTopics, exclude };
+  const signal = withDeadline(options, QUIZ_TIMEOUT_MS);
+  const fallbackMessage = "Failed to generate new questions.";
+
+  try {
+    const checked = await withRetry(
+      async () => dropRepeats(checkQuiz(await provider.generateQuiz(image, request, { signal })), exclude),
+      { signal, fallbackMessage }
+    );
+    if (checked.repairs.length > 0) {
+      console.warn(`Repaired quiz output:\n${formatIssues(checked.repairs)}`);
+    }
+
+    const questions = await topUpQuiz(provider, image, request, checked, signal);
+    if (questions.length === 0) {
+      throw new ModelOutputError("No usable questions were generated.", checked.invalid.flatMap((item) => item.errors));
+    }
+    return questions;
+  } catch (error) {
+    const classified = classifyError(error, fallbackMessage);
+    if (classified.kind !== 'cancelled') {
+      console.error(`Quiz Generation Error (${provider.name}/${provider.model}):`, error);
+    }
+    throw classified;
+  }
+};
+
+export const answerTutorQuestion = async (
+  provider: ModelProvider,
+  image: DiagramImage,
+  request: TutorRequest,
+  { onText, ...options }: RequestOptions & { onText?: (textSoFar: string) => void } = {}
+): Promise<string> => {
+  const signal = withDeadline(options, TUTOR_TIMEOUT_MS);
+  const fallbackMessage = "Failed to get an answer.";
+
+  try {
+    return await withRetry(
+      () => provider.tutor(image, request, { onText, signal }),
+      { signal, fallbackMessage }
+    );
+  } catch (error) {
+    const classified = classifyError(error, fallbackMessage);
+    if (classified.kind !== 'cancelled') {
+      console.error(`Tutor Error (${provider.name}/${provider.model}):`, error);
+    }
+    throw classified;
+  }
+};
+
+/** One explanation section in new wording, in the shape the section already has. */
+export const rewriteExplanationSection = async <S extends ExplanationSection>(
+  provider: ModelProvider,
+  image: DiagramImage,
+  request: SectionRewriteRequest & { section: S },
+  options: RequestOptions = {}
+): Promise<StructuredExplanation[S]> => {
+  const signal = withDeadline(options, REWRITE_TIMEOUT_MS);
+  const fallbackMessage = "Failed to rewrite this section.";
+
+  try {
+    const checked = await withRetry(
+      async () => checkSectionRewrite(await provider.rewriteSection(image, request, { signal }), request.section, request.explanation),
+      { signal, fallbackMessage }
+    );
+    if (checked.repairs.length > 0) {
+      console.warn(`Repaired section rewrite:\n${formatIssues(checked.repairs)}`);
+    }
+    return checked.value;
+  } catch (error) {
+    const classified = classifyError(error, fallbackMessage);
+    if (classified.kind !== 'cancelled') {
+      console.error(`Section Rewrite Error (${provider.name}/${provider.model}):`, error);
+    }
+    throw classified;
+  }
+};
@@ -0,0 +1,56 @@
+/// <reference types="vite/client" />
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+// PDF support for lecture slides and handouts: pages are rendered to images
+// in the browser, and each chosen page (or a region of it) is analyzed like
+// an uploaded image. pdf.js is loaded on first use so image-only sessions
+// don't download it.
+
+export type PdfDocument = PDFDocumentProxy;
+
+export const THUMBNAIL_SIZE = 240;
+// Large enough for small labels to stay legible, small enough for the upload limit
+export const PAGE_RENDER_SIZE = 2000;
+
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+
+const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([import("pdfjs-dist"), import("pdfjs-dist/build/pdf.worker.min.mjs?url")]).then(
+      ([pdfjs, worker]) => {
+        pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+        return pdfjs;
+      }
+    );
+  }
+  return pdfjsPromise;
+};
+
+export const isPdf = (file: File): boolean => file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+
+export const openPdf = async (file: File): Promise<PdfDocument> => {
+  const pdfjs = await loadPdfjs();
+  try {
+    return await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new Error("That PDF is password-protected. Remove the password and upload it again.");
+    }
+    throw new Error("Could not open that PDF. It may be damaged or not a PDF at all.");
+  }
+};
+
+/** Renders a page to a JPEG data URL whose longer side is `size` pixels. */
+export const renderPage = async (doc: PdfDocument, pageNumber: number, size: number): Promise<string> => {
+  const page = await doc.getPage(pageNumber);
+  const natural = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: size / Math.max(natural.width, natural.height) });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  // Slides with transparent backgrounds would otherwise turn black as JPEG
+  await page.render({ canvas, viewport, background: "#ffffff" }).promise;
+  page.cleanup();
+  return canvas.toDataURL("image/jpeg", 0.92);
+};
@@ -0,0 +1,438 @@
+import { Type, Schema } from "@google/genai";
+import {
+  AudienceProfile,
+  ExplanationSection,
+  QuestionDifficulty,
+  QuestionType,
+  QuizRequest,
+  SectionRewriteRequest,
+  TutorRequest,
+} from "../types";
+import { GRADE_BANDS } from "./audienceProfile";
+import { EXPLANATION_SECTIONS, REWRITE_STYLES, explanationToMarkdown, relationshipsToText } from "./explanation";
+import { QUESTION_TYPES, describeAnswer, describeCorrectAnswer, describeQuestion } from "./questionTypes";
+import { QUESTION_DIFFICULTIES } from "./quizSettings";
+
+// Prompts and response schemas are shared by every model provider so that a
+// switch of backend never changes what the student is asked or shown.
+
+export const ANALYSIS_QUIZ_COUNT = 3;
+
+const DIFFICULTY_GUIDE = (Object.keys(QUESTION_DIFFICULTIES) as QuestionDifficulty[])
+  .map((level) => `${level}: ${QUESTION_DIFFICULTIES[level].description}`)
+  .join("; ");
+
+const QUESTION_TYPE_GUIDE = (Object.keys(QUESTION_TYPES) as QuestionType[])
+  .map((type) => `- ${type}: ${QUESTION_TYPES[type].guide}.`)
+  .join("\n");
+
+// Said wherever questions are written, so analysis and quiz prompts ask for the same mix
+const QUESTION_TYPE_RULES = `Choose each question's type to suit what it tests, using mostly multiple-choice questions. Only ask ordering questions about a process or sequence the diagram actually shows. Fill the fields of the chosen type and set the other types' fields to null:
+${QUESTION_TYPE_GUIDE}`;
+
+// Said wherever the model writes explanation sections, so a rewrite keeps the analysis's format
+const EXPLANATION_FORMAT_RULES = "mainPurpose, howItWorks and summary are Markdown without headers: use **bold** for important terms to emphasize them, and simple paragraphs, bullet points or numbered steps. Definitions and roles are plain sentences.";
+
+// Said wherever the model writes text the app shows, so formulas render the same everywhere
+const NOTATION_RULES = "Write math in LaTeX between single dollar signs inline ($v = \\frac{d}{t}$) or double dollar signs on their own line for a displayed equation, and chemical formulas and reactions with mhchem inside dollar signs ($\\ce{2H2 + O2 -> 2H2O}$, $\\ce{CO2}$). Use this notation in quiz questions, options and explanations too. Never use dollar signs for anything else; write amounts of money as words or with a currency code.";
+
+/** Who to write for and in which language; shared by the analysis and quiz prompts so they match. */
+const describeAudience = ({ gradeBand, language }: AudienceProfile): string =>
+  `Write for ${GRADE_BANDS[gradeBand].audience}, in ${language}. This applies to every field, including quiz questions, options and explanations.`;
+
+const TONE_GUIDANCE: Record<AudienceProfile["tone"], string> = {
+  concise: "Keep it concise: a sentence or two per section, or a few short bullet points.",
+  detailed: "Be thorough: explain each point fully and use a short example where it helps.",
+};
+
+export const buildSystemInstruction = (profile: AudienceProfile): string => `
+You are an expert educational assistant specializing in explaining technical diagrams to ${GRADE_BANDS[profile.gradeBand].audience}.
+
+Your goal is to provide an easy-to-read explanation of the uploaded diagram's overall function and purpose. ${TONE_GUIDANCE[profile.tone]}
+
+Structure your response as follows:
+1. **Title**: A catchy title.
+2. **Explanation**, in these sections:
+   - **mainPurpose**: Explain the overall function and goal of what is shown in the diagram. Why does it exist?
+   - **keyTerms**: Extract exactly ${profile.keyTermCount} of the most important terms directly labeled in the diagram. Give each a one-sentence, concise definition.
+   - **components**: The most important parts shown, each with its name and its role in the diagram.
+   - **howItWorks**: Explain the relationships, flows, or processes depicted.
+   - **summary**: A brief wrap-up.
+   - *Formatting Rules*: ${EXPLANATION_FORMAT_RULES} ${NOTATION_RULES}
+3. **Relationships**: The processes, flows or connections between parts that the diagram shows, as an ordered list of steps the student can walk through. For a cycle or pipeline, follow it in order from a natural starting point; otherwise list the most important connections, most important first. For each step give its source and target (named exactly as in keyTerms or components where they appear there), describe what passes between them and why in a sentence or two, and give the bounding box of the region where it happens, such as its arrow, as [ymin, xmin, ymax, xmax] scaled from 0 to 1000 (null if it has no clear place in the image).
+4. **Hotspots**: For each key term and component that is visible as a region of the image, give its term exactly as named in keyTerms or components and its bounding box as [ymin, xmin, ymax, xmax], scaled from 0 to 1000. Leave out terms that have no place in the image.
+5. **Labels**: Every text label printed on the diagram, exactly as written (in its original language), with the bounding box of the text itself as [ymin, xmin, ymax, xmax] scaled from 0 to 1000. Leave out titles, captions and long sentences.
+6. **Quiz**: Create exactly ${ANALYSIS_QUIZ_COUNT} questions based ONLY on the diagram content.
+   - ${QUESTION_TYPE_RULES.replace(/\n/g, "\n     ")}
+   - Provide a brief explanation for the correct answer.
+   - Tag each question with its difficulty (${DIFFICULTY_GUIDE}) and the concept it tests (a key term or component from the diagram).
+
+${describeAudience(profile)}
+
+If the image is not a diagram, chart or technical illustration, or is too unclear to explain, set isDiagram to false, say briefly why in notDiagramReason, and leave every other field empty. Otherwise set isDiagram to true and notDiagramReason to an empty string.
+`;
+
+export const buildAnalyzePrompt = (profile: AudienceProfile): string =>
+  `Analyze this diagram. Provide an explanation for ${GRADE_BANDS[profile.gradeBand].audience} in ${profile.language}, ${profile.keyTermCount} key terms, the relationships it shows as ordered steps, and a ${ANALYSIS_QUIZ_COUNT}-question practice quiz.`;
+
+export const buildQuizSystemInstruction = ({ count, profile }: QuizRequest): string =>
+  `You are a quiz generator. Create ${count} challenging questions based on the provided diagram. ${QUESTION_TYPE_RULES}
+Tag each question with its difficulty (${DIFFICULTY_GUIDE}) and the concept it tests. ${describeAudience(profile)} ${NOTATION_RULES} Output strictly JSON.`;
+
+// Only the newest exclusions are listed, to keep long-studied diagrams' prompts small
+const MAX_EXCLUSIONS_IN_PROMPT = 40;
+
+export const buildQuizPrompt = ({ count, instructions, difficulty = "mixed", focusTopics = [], exclude = [] }: QuizRequest): string => {
+  const noun = count === 1 ? "question" : "questions";
+  let prompt = [
+    `Generate ${count} NEW and DIFFERENT practice ${noun} based on this diagram.`,
+    difficulty === "mixed"
+      ? "Mix difficulties, and focus on different aspects than standard identification if possible."
+      : `Every question must be ${difficulty} level: ${QUESTION_DIFFICULTIES[difficulty].description}.`,
+    focusTopics.length > 0 &&
+      `Only ask about these parts of the diagram: ${focusTopics.map((topic) => `"${topic}"`).join(", ")}. Use the matching one as each question's concept.`,
+  ].filter(Boolean).join(" ");
+  const excluded = exclude.slice(-MAX_EXCLUSIONS_IN_PROMPT);
+  if (excluded.length > 0) {
+    prompt += `\n\nThe student already has these questions. Do not repeat any of them or ask the same thing in other words:\n${excluded.map((q) => `- ${q}`).join("\n")}`;
+  }
+  return instructions ? `${prompt}\n\n${instructions}` : prompt;
+};
+
+// Hotspots and quiz concepts refer to terms and components by name, so a rewrite must keep them
+const LIST_REWRITE_RULES: Partial<Record<ExplanationSection, string>> = {
+  keyTerms: "Keep every term exactly as written and in the same order; only rewrite the definitions.",
+  components: "Keep every component's name exactly as written and in the same order; only rewrite the roles.",
+};
+
+export const buildRewriteSystemInstruction = ({ title, explanation, profile }: SectionRewriteRequest): string =>
+  `You are an expert educational assistant rewriting part of an explanation of the provided diagram for a student who asked for it in other words. Stay faithful to what the diagram shows.
+${EXPLANATION_FORMAT_RULES} ${NOTATION_RULES}
+${describeAudience(profile)}
+
+The student has read this explanation so far:
+## ${title}
+${explanationToMarkdown(explanation)}`;
+
+export const buildRewritePrompt = ({ section, style }: SectionRewriteRequest): string =>
+  [
+    `Rewrite only the "${EXPLANATION_SECTIONS[section]}" section (${section}). ${REWRITE_STYLES[style].instruction}`,
+    LIST_REWRITE_RULES[section],
+    "Do not repeat what the other sections already say.",
+  ].filter(Boolean).join(" ");
+
+export const TUTOR_SYSTEM_INSTRUCTION =
+  "You are a friendly and helpful tutor. The user is looking at a diagram and has a specific question about it. Answer their question concisely (under 3 sentences) and clearly based ONLY on the visual evidence in the provided diagram. If the answer isn't in the diagram, politely say so.";
+
+/** Tutor instruction plus the explanation and on-screen quiz question, so follow-ups like "why not option B?" resolve. */
+export const buildTutorSystemInstruction = ({ analysis, currentQuestion, selectedAnswer, profile }: TutorRequest): string => {
+  const sections = [TUTOR_SYSTEM_INSTRUCTION, NOTATION_RULES];
+
+  if (profile) {
+    sections.push(
+      `The student is one of ${GRADE_BANDS[profile.gradeBand].audience}; pitch your reply at that level. Reply in ${profile.language} unless the student asks you to switch languages.`
+    );
+  }
+
+  if (analysis) {
+    sections.push(
+      `The student has already read this explanation of the diagram:\n## ${analysis.title}\n${explanationToMarkdown(analysis.explanation)}\n\nKey relationships, in order:\n${relationshipsToText(analysis.relationships)}`
+    );
+  }
+
+  if (currentQuestion) {
+    const given = selectedAnswer == null ? undefined : describeAnswer(currentQuestion, selectedAnswer);
+    const status = given === undefined
+      ? "The student has not answered it yet, so guide them towards the answer instead of revealing it."
+      : `The student answered: ${given}.`;
+    sections.push(
+      `The quiz question currently on screen is:\n${describeQuestion(currentQuestion)}\nCorrect answer: ${describeCorrectAnswer(currentQuestion)}. ${currentQuestion.explanation}\n${status}`
+    );
+  }
+
+  return sections.join("\n\n");
+};
+
+export interface TutorTurn {
+  role: "user" | "model";
+  text: string;
+}
+
+/**
+ * The conversation as alternating user/model turns ending with the new
+ * question. Failed replies are dropped and consecutive turns from the same
+ * side merged, since chat APIs expect strict alternation.
+ */
+export const buildTutorTurns = ({ history, question }: TutorRequest): TutorTurn[] => {
+  const turns: TutorTurn[] = [];
+  const messages = [
+    ...history.filter((message) => !message.isError),
+    { sender: "user" as const, text: question },
+  ];
+
+  for (const message of messages) {
+    const role = message.sender === "user" ? "user" : "model";
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      last.text += `\n\n${message.text}`;
+    } else if (turns.length > 0 || role === "user") {
+      turns.push({ role, text: message.text });
+    }
+  }
+
+  return turns;
+};
+
+// One flat object for every question type, since not every backend supports
+// union schemas: the fields of other types come back null.
+const QUIZ_QUESTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    type: {
+      type: Type.STRING,
+      enum: Object.keys(QUESTION_TYPES),
+      description: "How the question is answered; decides which of the fields below are filled.",
+    },
+    question: {
+      type: Type.STRING,
+      description: "The question; for true-false a statement, for fill-in a sentence with ___ for the blank. Math in $...$ LaTeX, chemistry in $\\ce{...}$.",
+    },
+    options: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      nullable: true,
+      description: "multiple-choice only: an array of exactly 4 possible answers, with any formulas in $...$ LaTeX or $\\ce{...}$.",
+    },
+    correctAnswerIndex: {
+      type: Type.INTEGER,
+      nullable: true,
+      description: "multiple-choice only: the index (0-3) of the correct answer.",
+    },
+    answer: {
+      type: Type.BOOLEAN,
+      nullable: true,
+      description: "true-false only: whether the statement is true.",
+    },
+    acceptedAnswers: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      nullable: true,
+      description: "fill-in only: every acceptable word or phrase for the blank, e.g. a term and its plural, as plain text a student can type (H2O, not LaTeX).",
+    },
+    items: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      nullable: true,
+      description: "ordering only: the steps in their correct order.",
+    },
+    pairs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING },
+          definition: { type: Type.STRING },
+        },
+        required: ["term", "definition"],
+      },
+      nullable: true,
+      description: "matching only: terms from the diagram with their definitions.",
+    },
+    explanation: {
+      type: Type.STRING,
+      description: "Briefly explain why the answer is correct, with any formulas in $...$ LaTeX or $\\ce{...}$.",
+    },
+    difficulty: {
+      type: Type.STRING,
+      enum: Object.keys(QUESTION_DIFFICULTIES),
+      description: "How demanding the question is: recall, application or analysis.",
+    },
+    concept: {
+      type: Type.STRING,
+      description: "The key term or component the question tests, as named in the diagram.",
+    },
+  },
+  required: [
+    "type",
+    "question",
+    "options",
+    "correctAnswerIndex",
+    "answer",
+    "acceptedAnswers",
+    "items",
+    "pairs",
+    "explanation",
+    "difficulty",
+    "concept",
+  ],
+};
+
+// The explanation's sections, with field descriptions restating the profile's language and key-term count
+const buildExplanationSchema = (language: string, keyTermCount: number): Schema => ({
+  type: Type.OBJECT,
+  description: `The explanation in ${language}, in sections.`,
+  properties: {
+    mainPurpose: {
+      type: Type.STRING,
+      description: `Markdown, in ${language}: the overall function and goal of the diagram. Use '**' for bold text, $...$ or $$...$$ for LaTeX math and $\\ce{...}$ for chemistry, and no headers.`,
+    },
+    keyTerms: {
+      type: Type.ARRAY,
+      description: `Exactly ${keyTermCount} of the most important terms labeled in the diagram.`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: "The term as labeled in the diagram." },
+          definition: { type: Type.STRING, description: `A one-sentence definition, in ${language}.` },
+        },
+        required: ["term", "definition"],
+      },
+    },
+    components: {
+      type: Type.ARRAY,
+      description: "The most important parts shown in the diagram.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "The part's name as labeled in the diagram." },
+          role: { type: Type.STRING, description: `What it does in the diagram, in one or two sentences, in ${language}.` },
+        },
+        required: ["name", "role"],
+      },
+    },
+    howItWorks: {
+      type: Type.STRING,
+      description: `Markdown, in ${language}: the relationships, flows or processes depicted, as paragraphs or numbered steps. Use '**' for bold text and no headers.`,
+    },
+    summary: {
+      type: Type.STRING,
+      description: `Markdown, in ${language}: a brief wrap-up.`,
+    },
+  },
+  required: ["mainPurpose", "keyTerms", "components", "howItWorks", "summary"],
+  propertyOrdering: ["mainPurpose", "keyTerms", "components", "howItWorks", "summary"],
+});
+
+/** The analysis schema, with field descriptions restating the profile's language and key-term count. */
+export const buildResponseSchema = ({ language, keyTermCount }: AudienceProfile): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    isDiagram: {
+      type: Type.BOOLEAN,
+      description: "False if the image is not a diagram that can be explained.",
+    },
+    notDiagramReason: {
+      type: Type.STRING,
+      description: "When isDiagram is false, a short, polite reason for the student. Otherwise empty.",
+    },
+    title: {
+      type: Type.STRING,
+      description: `A short, engaging title for the diagram, in ${language}.`,
+    },
+    explanation: buildExplanationSchema(language, keyTermCount),
+    relationships: {
+      type: Type.ARRAY,
+      description: "The diagram's processes, flows or connections as ordered steps, in the order a walkthrough should visit them.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: {
+            type: Type.STRING,
+            description: "Where the step starts, named exactly as in keyTerms or components if it is one of them.",
+          },
+          target: {
+            type: Type.STRING,
+            description: "Where the step leads, named the same way.",
+          },
+          description: {
+            type: Type.STRING,
+            description: `What passes from source to target and why, in ${language}, in one or two sentences. Formulas in $...$ LaTeX or $\\ce{...}$.`,
+          },
+          box: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER },
+            nullable: true,
+            description: "Where the step happens in the image, e.g. around its arrow: [ymin, xmin, ymax, xmax], each from 0 to 1000. Null if it has no clear place.",
+          },
+        },
+        required: ["source", "target", "description", "box"],
+      },
+    },
+    hotspots: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: {
+            type: Type.STRING,
+            description: "A key term or component, written exactly as it is named in the explanation's keyTerms or components.",
+          },
+          box: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER },
+            description: "Where the term appears in the image: [ymin, xmin, ymax, xmax], each from 0 to 1000.",
+          },
+        },
+        required: ["term", "box"],
+      },
+    },
+    labels: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: {
+            type: Type.STRING,
+            description: "A text label printed on the diagram, exactly as written.",
+          },
+          box: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER },
+            description: "Tightly around the label's text: [ymin, xmin, ymax, xmax], each from 0 to 1000.",
+          },
+        },
+        required: ["text", "box"],
+      },
+    },
+    quiz: {
+      type: Type.ARRAY,
+      items: QUIZ_QUESTION_SCHEMA,
+    },
+  },
+  required: ["isDiagram", "notDiagramReason", "title", "explanation", "relationships", "hotspots", "labels", "quiz"],
+  // Streamed output is rendered top to bottom, so fields must arrive in reading order
+  propertyOrdering: [
+    "isDiagram",
+    "notDiagramReason",
+    "title",
+    "explanation",
+    "relationships",
+    "hotspots",
+    "labels",
+    "quiz",
+  ],
+});
+
+export const QUIZ_ONLY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    quiz: {
+      type: Type.ARRAY,
+      items: QUIZ_QUESTION_SCHEMA,
+    },
+  },
+  required: ["quiz"],
+};
+
+/** One explanation section, in the same shape the analysis returns it in. */
+export const buildSectionRewriteSchema = (section: ExplanationSection, { language, keyTermCount }: AudienceProfile): Schema => {
+  const schema = buildExplanationSchema(language, keyTermCount).properties![section];
+  return {
+    type: Type.OBJECT,
+    properties: {
+      // A rewritten list keeps its entries, however many the analysis returned
+      [section]: schema.type === Type.ARRAY ? { ...schema, description: "Every entry of the section, in the same order, with the names unchanged." } : schema,
+    },
+    required: [section],
+  };
+};
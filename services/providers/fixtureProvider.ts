@@ -0,0 +1,256 @@
+import { AnalysisResult, QuizQuestion, RewriteStyle } from "../../types";
+import { REWRITE_STYLES } from "../explanation";
+import { isNearDuplicate } from "../questionBank";
+import { sleep } from "../retry";
+import { partialJsonReporter, readTextStream } from "../streaming";
+import { ModelProvider, ProviderConfig } from "./types";
+
+// Canned output for offline development and demos. Every call returns the
+// same data regardless of the image, so UI work and screenshots are repeatable.
+
+// Relationships, hotspots and labels are kept apart in the model's own box format
+const FIXTURE_ANALYSIS: Omit<AnalysisResult, "relationships"> = {
+  title: "The Water Cycle: Earth's Recycling System",
+  explanation: {
+    mainPurpose:
+      "The diagram shows how water moves continuously between the **ocean**, the **atmosphere** and the **land**. This cycle is what keeps fresh water available for plants, animals and people.",
+    keyTerms: [
+      { term: "Evaporation", definition: "Liquid water is heated by the sun and turns into water vapor." },
+      { term: "Condensation", definition: "Water vapor cools and forms tiny droplets that make up clouds." },
+      { term: "Precipitation", definition: "Water falls from clouds as rain, snow, sleet or hail." },
+      { term: "Runoff", definition: "Water flows over the ground into rivers, lakes and the ocean." },
+      { term: "Infiltration", definition: "Water soaks into the soil and becomes groundwater." },
+    ],
+    components: [
+      { name: "Sun", role: "Supplies the energy that drives evaporation." },
+      { name: "Clouds", role: "Store condensed water until it falls as precipitation." },
+      { name: "Ocean", role: "The largest reservoir where most evaporation happens." },
+    ],
+    howItWorks: `1. The **sun** warms the ocean and water evaporates.
+2. Rising vapor cools and **condenses** into clouds.
+3. Clouds release **precipitation** over land and sea.
+4. Water returns to the ocean as **runoff** or is stored as groundwater.`,
+    summary:
+      "The water cycle has no start or end: the same water is reused again and again, powered by the sun and gravity.",
+  },
+  quiz: [
+    {
+      type: "multiple-choice",
+      question: "What provides the energy that drives evaporation in the diagram?",
+      options: ["The moon", "The sun", "Wind turbines", "Groundwater"],
+      correctAnswerIndex: 1,
+      explanation: "The sun heats surface water, turning it into vapor.",
+      difficulty: "recall",
+      concept: "Sun",
+    },
+    {
+      type: "true-false",
+      question: "Condensation is the process that turns water vapor into cloud droplets.",
+      answer: true,
+      explanation: "Condensation happens when rising vapor cools into droplets.",
+      difficulty: "recall",
+      concept: "Condensation",
+    },
+    {
+      type: "ordering",
+      question: "Put the stages of the water cycle in order, starting from the ocean.",
+      items: ["Evaporation", "Condensation", "Precipitation", "Runoff"],
+      explanation: "Water evaporates from the ocean, condenses into clouds, falls as precipitation and runs off back to the sea.",
+      difficulty: "application",
+      concept: "Water cycle",
+    },
+  ],
+};
+
+// Raw model-style boxes ([ymin, xmin, ymax, xmax] out of 1000) for a typical
+// water cycle drawing: sun top right, clouds top left, ocean along the bottom.
+const FIXTURE_HOTSPOTS = [
+  { term: "Sun", box: [40, 760, 240, 940] },
+  { term: "Clouds", box: [60, 120, 260, 560] },
+  { term: "Evaporation", box: [300, 600, 700, 760] },
+  { term: "Condensation", box: [220, 160, 320, 520] },
+  { term: "Precipitation", box: [280, 180, 560, 420] },
+  { term: "Runoff", box: [600, 80, 760, 420] },
+  { term: "Infiltration", box: [760, 100, 900, 360] },
+  { term: "Ocean", box: [760, 480, 1000, 1000] },
+];
+
+// The same drawing as a walkthrough of the cycle, each step boxed around its arrow
+const FIXTURE_RELATIONSHIPS = [
+  {
+    source: "Ocean",
+    target: "Clouds",
+    description: "Energy from the sun turns ocean water into vapor, which rises into the cooler atmosphere.",
+    box: [260, 560, 780, 800],
+  },
+  {
+    source: "Evaporation",
+    target: "Condensation",
+    description: "The rising vapor cools and condenses into droplets that gather as clouds.",
+    box: [180, 140, 340, 560],
+  },
+  {
+    source: "Clouds",
+    target: "Precipitation",
+    description: "When the droplets grow too heavy they fall back as rain, snow, sleet or hail.",
+    box: [260, 160, 580, 440],
+  },
+  {
+    source: "Precipitation",
+    target: "Ocean",
+    description: "Water on land flows back to the sea as runoff, or soaks in as groundwater, and the cycle starts again.",
+    box: [580, 60, 920, 700],
+  },
+];
+
+// The printed labels of the same drawing, boxed around their text
+const FIXTURE_LABELS = [
+  { text: "Sun", box: [250, 820, 290, 880] },
+  { text: "Condensation", box: [180, 240, 215, 420] },
+  { text: "Precipitation", box: [420, 90, 455, 250] },
+  { text: "Evaporation", box: [480, 770, 515, 930] },
+  { text: "Runoff", box: [700, 300, 735, 400] },
+  { text: "Infiltration", box: [905, 120, 940, 280] },
+  { text: "Ocean", box: [900, 680, 940, 780] },
+];
+
+const FIXTURE_EXTRA_QUIZZES: QuizQuestion[][] = [
+  [
+    {
+      type: "multiple-choice",
+      question: "What happens to water that infiltrates the soil?",
+      options: ["It becomes groundwater", "It evaporates immediately", "It forms clouds", "It turns into ice"],
+      correctAnswerIndex: 0,
+      explanation: "Infiltrated water is stored underground as groundwater.",
+      difficulty: "recall",
+      concept: "Infiltration",
+    },
+    {
+      type: "multiple-choice",
+      question: "Which arrow would disappear if the sun stopped shining?",
+      options: ["Runoff", "Evaporation", "Infiltration", "Precipitation from existing clouds"],
+      correctAnswerIndex: 1,
+      explanation: "Evaporation depends on solar energy; the other flows are driven by gravity.",
+      difficulty: "analysis",
+      concept: "Evaporation",
+    },
+    {
+      type: "fill-in",
+      question: "Water that soaks into the soil and is stored underground is called ___.",
+      acceptedAnswers: ["groundwater", "ground water"],
+      explanation: "Infiltrated water collects underground as groundwater.",
+      difficulty: "recall",
+      concept: "Infiltration",
+    },
+  ],
+  [
+    {
+      type: "matching",
+      question: "Match each process to what happens to the water.",
+      pairs: [
+        { term: "Evaporation", definition: "Liquid water turns into vapor" },
+        { term: "Condensation", definition: "Vapor cools into cloud droplets" },
+        { term: "Runoff", definition: "Water flows over land into rivers and the sea" },
+      ],
+      explanation: "Each process moves water to the next stage of the cycle.",
+      difficulty: "recall",
+      concept: "Runoff",
+    },
+    {
+      type: "multiple-choice",
+      question: "Snow and hail are both forms of what?",
+      options: ["Precipitation", "Condensation", "Infiltration", "Evaporation"],
+      correctAnswerIndex: 0,
+      explanation: "Any water falling from clouds counts as precipitation.",
+      difficulty: "application",
+      concept: "Precipitation",
+    },
+    {
+      type: "multiple-choice",
+      question: "What must happen to water vapor before it can form clouds?",
+      options: ["It must heat up", "It must cool down", "It must reach the ocean", "It must soak into soil"],
+      correctAnswerIndex: 1,
+      explanation: "Vapor condenses into droplets only after it cools.",
+      difficulty: "application",
+      concept: "Condensation",
+    },
+  ],
+];
+
+// Added to a rewritten section so each style visibly changes the text
+const FIXTURE_REWRITES: Record<RewriteStyle, string> = {
+  simpler: "In short: the sun heats water, it rises, cools into clouds and falls back as rain.",
+  deeper: "Underneath, evaporation absorbs latent heat from the surface and condensation releases it in the atmosphere, which is why the cycle also moves energy around the planet.",
+  example: "For example, a puddle on a sunny playground is gone by the afternoon because its water has evaporated.",
+};
+
+const STREAM_CHUNK_DELAY_MS = 20;
+
+// Replays text in small pieces with a fixed delay, mimicking a streaming model.
+async function* replay(text: string, chunkSize: number, signal?: AbortSignal) {
+  for (let i = 0; i < text.length; i += chunkSize) {
+    await sleep(STREAM_CHUNK_DELAY_MS, signal);
+    yield text.slice(i, i + chunkSize);
+  }
+}
+
+export const createFixtureProvider = (config: ProviderConfig): ModelProvider => {
+  let quizCalls = 0;
+
+  return {
+    name: 'fixture',
+    model: config.model,
+
+    analyze: async (_image, _profile, { onPartial, signal } = {}) => {
+      // Relationships, hotspots and labels go between the text and the quiz, where a real model's stream has them
+      const { quiz, ...text } = FIXTURE_ANALYSIS;
+      const output = {
+        isDiagram: true,
+        notDiagramReason: "",
+        ...text,
+        relationships: FIXTURE_RELATIONSHIPS,
+        hotspots: FIXTURE_HOTSPOTS,
+        labels: FIXTURE_LABELS,
+        quiz,
+      };
+      await readTextStream(replay(JSON.stringify(output), 48, signal), partialJsonReporter(onPartial));
+      return structuredClone(output);
+    },
+
+    // Cycles through the extra sets so "Generate New Questions" visibly changes the quiz, skipping
+    // questions the student has already seen like a real model is asked to. Difficulty is honoured
+    // when a fixture question has it; the count is capped by what exists.
+    generateQuiz: async (_image, { count, difficulty = "mixed", exclude = [] }, { signal } = {}) => {
+      signal?.throwIfAborted();
+      const start = quizCalls++ % FIXTURE_EXTRA_QUIZZES.length;
+      const ordered = [...FIXTURE_EXTRA_QUIZZES.slice(start), ...FIXTURE_EXTRA_QUIZZES.slice(0, start)]
+        .flat()
+        .filter((q) => !isNearDuplicate(q.question, exclude));
+      const matching = ordered.filter((q) => difficulty === "mixed" || q.difficulty === difficulty);
+      return { quiz: structuredClone((matching.length > 0 ? matching : ordered).slice(0, count)) };
+    },
+
+    tutor: async (_image, { question, history, currentQuestion }, { onText, signal } = {}) => {
+      const followUp = history.some((message) => message.sender === 'ai' && !message.isError)
+        ? "Building on what we discussed, "
+        : "";
+      const onScreen = currentQuestion ? ` For the question "${currentQuestion.question}", look at which arrow the sun's energy feeds.` : "";
+      const answer = `(Offline tutor) ${followUp}you asked: "${question.trim()}". In this diagram, the sun drives evaporation, clouds form by condensation, and precipitation returns the water to land and sea.${onScreen}`;
+      return readTextStream(replay(answer, 6, signal), onText);
+    },
+
+    // Keeps the section as the student sees it and marks it, so version history can be tried offline
+    rewriteSection: async (_image, { section, style, explanation }, { signal } = {}) => {
+      await sleep(STREAM_CHUNK_DELAY_MS * 10, signal);
+      const note = `(Offline rewrite: ${REWRITE_STYLES[style].version.toLowerCase()})`;
+      switch (section) {
+        case "keyTerms":
+          return { keyTerms: explanation.keyTerms.map((entry) => ({ ...entry, definition: `${note} ${entry.definition}` })) };
+        case "components":
+          return { components: explanation.components.map((entry) => ({ ...entry, role: `${note} ${entry.role}` })) };
+        default:
+          return { [section]: `${note}\n\n${explanation[section]}\n\n${FIXTURE_REWRITES[style]}` };
+      }
+    },
+  };
+};
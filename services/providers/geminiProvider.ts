@@ -0,0 +1,160 @@
+import { Content, FinishReason, GenerateContentResponse, GoogleGenAI, Schema } from "@google/genai";
+import {
+  QUIZ_ONLY_SCHEMA,
+  TutorTurn,
+  buildAnalyzePrompt,
+  buildQuizPrompt,
+  buildQuizSystemInstruction,
+  buildResponseSchema,
+  buildRewritePrompt,
+  buildRewriteSystemInstruction,
+  buildSectionRewriteSchema,
+  buildSystemInstruction,
+  buildTutorSystemInstruction,
+  buildTutorTurns,
+} from "../prompts";
+import { ApiKeyError, ModelOutputError, SafetyBlockedError } from "../errors";
+import { partialJsonReporter, readTextStream } from "../streaming";
+import { DiagramImage, ModelProvider, ProviderConfig } from "./types";
+
+// The diagram travels with the first user turn; later turns are text only.
+const toContents = (image: DiagramImage, turns: TutorTurn[]): Content[] =>
+  turns.map((turn, index) => ({
+    role: turn.role,
+    parts: [
+      ...(index === 0
+        ? [
+            {
+              inlineData: {
+                mimeType: image.mimeType,
+                data: image.base64Data,
+              },
+            },
+          ]
+        : []),
+      { text: turn.text },
+    ],
+  }));
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// A blocked prompt or answer arrives as an ordinary response with no text.
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKING_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockedError(finishReason);
+};
+
+export const createGeminiProvider = (config: ProviderConfig): ModelProvider => {
+  if (!config.apiKey) {
+    throw new ApiKeyError("API Key is missing. Please check your environment configuration.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  const request = (
+    image: DiagramImage,
+    turns: TutorTurn[],
+    systemInstruction: string,
+    responseSchema: Schema | undefined,
+    signal: AbortSignal | undefined
+  ) => ({
+    model: config.model,
+    contents: toContents(image, turns),
+    config: {
+      systemInstruction,
+      abortSignal: signal,
+      ...(responseSchema && { responseMimeType: "application/json", responseSchema }),
+    },
+  });
+
+  const generate = async (
+    image: DiagramImage,
+    turns: TutorTurn[],
+    systemInstruction: string,
+    responseSchema?: Schema,
+    signal?: AbortSignal
+  ) => {
+    const response = await ai.models.generateContent(request(image, turns, systemInstruction, responseSchema, signal));
+    throwIfBlocked(response);
+    return response.text;
+  };
+
+  async function* generateStream(
+    image: DiagramImage,
+    turns: TutorTurn[],
+    systemInstruction: string,
+    responseSchema?: Schema,
+    signal?: AbortSignal
+  ) {
+    const stream = await ai.models.generateContentStream(request(image, turns, systemInstruction, responseSchema, signal));
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      throwIfBlocked(chunk);
+      yield chunk.text ?? "";
+    }
+  }
+
+  return {
+    name: 'gemini',
+    model: config.model,
+
+    analyze: async (image, profile, { onPartial, signal } = {}) => {
+      const text = await readTextStream(
+        generateStream(
+          image,
+          [{ role: "user", text: buildAnalyzePrompt(profile) }],
+          buildSystemInstruction(profile),
+          buildResponseSchema(profile),
+          signal
+        ),
+        partialJsonReporter(onPartial)
+      );
+      if (!text) {
+        throw new ModelOutputError("No response received from the model.");
+      }
+      return JSON.parse(text);
+    },
+
+    generateQuiz: async (image, quizRequest, { signal } = {}) => {
+      const text = await generate(
+        image,
+        [{ role: "user", text: buildQuizPrompt(quizRequest) }],
+        buildQuizSystemInstruction(quizRequest),
+        QUIZ_ONLY_SCHEMA,
+        signal
+      );
+      if (!text) throw new ModelOutputError("No response received from the model.");
+      return JSON.parse(text);
+    },
+
+    tutor: async (image, tutorRequest, { onText, signal } = {}) => {
+      const text = await readTextStream(
+        generateStream(image, buildTutorTurns(tutorRequest), buildTutorSystemInstruction(tutorRequest), undefined, signal),
+        onText
+      );
+      return text || "I couldn't generate a response. Please try again.";
+    },
+
+    rewriteSection: async (image, rewriteRequest, { signal } = {}) => {
+      const text = await generate(
+        image,
+        [{ role: "user", text: buildRewritePrompt(rewriteRequest) }],
+        buildRewriteSystemInstruction(rewriteRequest),
+        buildSectionRewriteSchema(rewriteRequest.section, rewriteRequest.profile),
+        signal
+      );
+      if (!text) throw new ModelOutputError("No response received from the model.");
+      return JSON.parse(text);
+    },
+  };
+};
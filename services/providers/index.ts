@@ -0,0 +1,79 @@
+import { createFixtureProvider } from "./fixtureProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { ModelProvider, ProviderConfig, ProviderKind } from "./types";
+
+export type {
+  AnalyzeOptions,
+  CallOptions,
+  DiagramImage,
+  ModelProvider,
+  ProviderConfig,
+  ProviderKind,
+  TutorOptions,
+} from "./types";
+
+const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  gemini: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  fixture: "fixture",
+};
+
+const isProviderKind = (value: string): value is ProviderKind => Object.hasOwn(DEFAULT_MODELS, value);
+
+/**
+ * Reads the provider selection from the API server's environment
+ * (see `server/index.ts`). Defaults to Gemini so existing setups keep working.
+ */
+export const resolveProviderConfig = (): ProviderConfig => {
+  const requested = (process.env.MODEL_PROVIDER || 'gemini').toLowerCase();
+  if (!isProviderKind(requested)) {
+    throw new Error(`Unknown model provider "${requested}". Use one of: ${Object.keys(DEFAULT_MODELS).join(', ')}.`);
+  }
+
+  return {
+    kind: requested,
+    model: process.env.MODEL_NAME || DEFAULT_MODELS[requested],
+    apiKey: requested === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY || process.env.API_KEY,
+    baseUrl: process.env.OPENAI_BASE_URL,
+  };
+};
+
+export const createProvider = (config: ProviderConfig): ModelProvider => {
+  switch (config.kind) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+      return createOpenAiProvider(config);
+    case 'fixture':
+      return createFixtureProvider(config);
+  }
+};
+
+/**
+ * Wraps a provider so it is only created on its first call. A missing API key
+ * then rejects each call with an ApiKeyError, which the API server reports to
+ * the client, instead of stopping the server as it starts.
+ */
+export const createLazyProvider = (config: ProviderConfig): ModelProvider => {
+  let provider: ModelProvider | null = null;
+  const resolve = () => (provider ??= createProvider(config));
+
+  return {
+    name: config.kind,
+    model: config.model,
+    analyze: async (...args) => resolve().analyze(...args),
+    generateQuiz: async (...args) => resolve().generateQuiz(...args),
+    tutor: async (...args) => resolve().tutor(...args),
+    rewriteSection: async (...args) => resolve().rewriteSection(...args),
+  };
+};
+
+let activeProvider: ModelProvider | null = null;
+
+export const getProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    activeProvider = createLazyProvider(resolveProviderConfig());
+  }
+  return activeProvider;
+};
@@ -0,0 +1,193 @@
+import { Schema } from "@google/genai";
+import {
+  QUIZ_ONLY_SCHEMA,
+  TutorTurn,
+  buildAnalyzePrompt,
+  buildQuizPrompt,
+  buildQuizSystemInstruction,
+  buildResponseSchema,
+  buildRewritePrompt,
+  buildRewriteSystemInstruction,
+  buildSectionRewriteSchema,
+  buildSystemInstruction,
+  buildTutorSystemInstruction,
+  buildTutorTurns,
+} from "../prompts";
+import { ModelOutputError, SafetyBlockedError, errorForStatus } from "../errors";
+import { partialJsonReporter, readLines, readTextStream } from "../streaming";
+import { DiagramImage, ModelProvider, ProviderConfig } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+}
+
+// Yields the `data:` payloads of a server-sent events response body.
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) yield line.slice(5).trim();
+  }
+}
+
+// Gemini schemas use upper-case type names ("OBJECT", "STRING", ...) and a
+// `nullable` flag; JSON Schema, which OpenAI-compatible servers expect, uses
+// lower-case ones and lists "null" as a type.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.nullable ? [schema.type.toLowerCase(), 'null'] : schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    out.required = schema.required ?? [];
+    out.additionalProperties = false;
+  }
+  return out;
+};
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API with
+ * image input, e.g. OpenAI itself, Ollama, LM Studio or vLLM.
+ */
+export const createOpenAiProvider = (config: ProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const post = async (
+    image: DiagramImage,
+    turns: TutorTurn[],
+    systemInstruction: string,
+    responseSchema: Schema | undefined,
+    stream: boolean,
+    signal: AbortSignal | undefined
+  ) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local endpoints usually run without authentication.
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        stream,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          ...turns.map((turn, index) => ({
+            role: turn.role === 'model' ? 'assistant' : 'user',
+            // The diagram travels with the first user turn; later turns are text only.
+            content: index === 0
+              ? [
+                  { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64Data}` } },
+                  { type: 'text', text: turn.text },
+                ]
+              : turn.text,
+          })),
+        ],
+        ...(responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', strict: true, schema: toJsonSchema(responseSchema) },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw errorForStatus(response.status, new Error(`Model endpoint responded with ${response.status} ${response.statusText}`));
+    }
+    return response;
+  };
+
+  const complete = async (
+    image: DiagramImage,
+    turns: TutorTurn[],
+    systemInstruction: string,
+    responseSchema?: Schema,
+    signal?: AbortSignal
+  ) => {
+    const response = await post(image, turns, systemInstruction, responseSchema, false, signal);
+    const data = (await response.json()) as ChatCompletionResponse;
+    if (data.choices?.[0]?.finish_reason === 'content_filter') throw new SafetyBlockedError('content_filter');
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  async function* completeStream(
+    image: DiagramImage,
+    turns: TutorTurn[],
+    systemInstruction: string,
+    responseSchema?: Schema,
+    signal?: AbortSignal
+  ) {
+    const response = await post(image, turns, systemInstruction, responseSchema, true, signal);
+    if (!response.body) throw new ModelOutputError("Model endpoint returned an empty stream.");
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === '[DONE]') return;
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.choices?.[0]?.finish_reason === 'content_filter') throw new SafetyBlockedError('content_filter');
+      yield chunk.choices?.[0]?.delta?.content ?? '';
+    }
+  }
+
+  return {
+    name: 'openai',
+    model: config.model,
+
+    analyze: async (image, profile, { onPartial, signal } = {}) => {
+      const text = await readTextStream(
+        completeStream(
+          image,
+          [{ role: 'user', text: buildAnalyzePrompt(profile) }],
+          buildSystemInstruction(profile),
+          buildResponseSchema(profile),
+          signal
+        ),
+        partialJsonReporter(onPartial)
+      );
+      if (!text) {
+        throw new ModelOutputError("No response received from the model.");
+      }
+      return JSON.parse(text);
+    },
+
+    generateQuiz: async (image, request, { signal } = {}) => {
+      const text = await complete(
+        image,
+        [{ role: 'user', text: buildQuizPrompt(request) }],
+        buildQuizSystemInstruction(request),
+        QUIZ_ONLY_SCHEMA,
+        signal
+      );
+      if (!text) throw new ModelOutputError("No response received from the model.");
+      return JSON.parse(text);
+    },
+
+    tutor: async (image, request, { onText, signal } = {}) => {
+      const text = await readTextStream(
+        completeStream(image, buildTutorTurns(request), buildTutorSystemInstruction(request), undefined, signal),
+        onText
+      );
+      return text || "I couldn't generate a response. Please try again.";
+    },
+
+    rewriteSection: async (image, request, { signal } = {}) => {
+      const text = await complete(
+        image,
+        [{ role: 'user', text: buildRewritePrompt(request) }],
+        buildRewriteSystemInstruction(request),
+        buildSectionRewriteSchema(request.section, request.profile),
+        signal
+      );
+      if (!text) throw new ModelOutputError("No response received from the model.");
+      return JSON.parse(text);
+    },
+  };
+};
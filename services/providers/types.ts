@@ -0,0 +1,46 @@
+import { AudienceProfile, PartialAnalysis, QuizRequest, SectionRewriteRequest, TutorRequest } from "../../types";
+
+export interface DiagramImage {
+  base64Data: string; // Raw base64, without the data URL prefix
+  mimeType: string;
+}
+
+export interface CallOptions {
+  signal?: AbortSignal; // Aborts the underlying request, including a stream in progress
+}
+
+export interface AnalyzeOptions extends CallOptions {
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+export interface TutorOptions extends CallOptions {
+  onText?: (textSoFar: string) => void;
+}
+
+/**
+ * A backend capable of running the four model tasks the app needs.
+ * Implementations own their client and model name; prompts and schemas
+ * come from `services/prompts.ts`. Analysis and tutoring stream: the
+ * optional callbacks fire as output arrives, and the promise resolves with
+ * the complete result. Every call rejects promptly once its signal aborts.
+ *
+ * `analyze`, `generateQuiz` and `rewriteSection` resolve with the model's parsed JSON as-is;
+ * `services/validation.ts` checks and repairs it before the UI sees it.
+ */
+export interface ModelProvider {
+  readonly name: ProviderKind;
+  readonly model: string;
+  analyze(image: DiagramImage, profile: AudienceProfile, options?: AnalyzeOptions): Promise<unknown>;
+  generateQuiz(image: DiagramImage, request: QuizRequest, options?: CallOptions): Promise<unknown>;
+  tutor(image: DiagramImage, request: TutorRequest, options?: TutorOptions): Promise<string>;
+  rewriteSection(image: DiagramImage, request: SectionRewriteRequest, options?: CallOptions): Promise<unknown>;
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'fixture';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // Only used by the OpenAI-compatible provider
+}
@@ -0,0 +1,75 @@
+import { QuizQuestion, QuizSettings } from "../types";
+import { matchesQuizSettings } from "./quizSettings";
+
+// Every question a diagram has produced, de-duplicated. Shared by the
+// library (the student's bank), the server's question pool and the quiz
+// pipeline, so "is this a repeat?" has one answer everywhere.
+
+// Two questions whose stems share this much of their wording count as the same question
+export const DUPLICATE_THRESHOLD = 0.8;
+
+const STOP_WORDS = new Set([
+  "a", "an", "the", "of", "in", "on", "at", "to", "for", "by", "and", "or", "is", "are", "was", "were",
+  "be", "does", "do", "which", "what", "this", "that", "these", "those", "it", "its", "shown", "diagram",
+]);
+
+/** Lowercased words without punctuation or filler, e.g. "What is shown by the arrow?" -> ["arrow"]. */
+export const questionTokens = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter((word) => word && !STOP_WORDS.has(word));
+
+/** Dice coefficient of the two stems' word sets, from 0 (unrelated) to 1 (same wording). */
+export const questionSimilarity = (a: string, b: string): number => {
+  const left = new Set(questionTokens(a));
+  const right = new Set(questionTokens(b));
+  if (left.size === 0 || right.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+  let shared = 0;
+  for (const word of left) if (right.has(word)) shared++;
+  return (2 * shared) / (left.size + right.size);
+};
+
+export const isNearDuplicate = (question: string, existing: string[]): boolean =>
+  existing.some((other) => questionSimilarity(question, other) >= DUPLICATE_THRESHOLD);
+
+export interface BankMerge {
+  bank: QuizQuestion[];
+  added: QuizQuestion[];
+  rejected: QuizQuestion[]; // Near-duplicates of a banked question or of an earlier one in the batch
+}
+
+/** Appends the questions that aren't near-duplicates of anything already banked. */
+export const mergeIntoBank = (bank: QuizQuestion[], questions: QuizQuestion[]): BankMerge => {
+  const known = bank.map((q) => q.question);
+  const added: QuizQuestion[] = [];
+  const rejected: QuizQuestion[] = [];
+
+  for (const question of questions) {
+    if (isNearDuplicate(question.question, known)) {
+      rejected.push(question);
+    } else {
+      added.push(question);
+      known.push(question.question);
+    }
+  }
+  return { bank: [...bank, ...added], added, rejected };
+};
+
+/**
+ * Draws a quiz from the bank: a random selection of the questions that fit
+ * the settings' difficulty and focus, at most `settings.count` of them.
+ */
+export const sampleFromBank = (bank: QuizQuestion[], settings: QuizSettings, random = Math.random): QuizQuestion[] => {
+  const pool = bank.filter((q) => matchesQuizSettings(q, settings));
+  // Partial Fisher-Yates: only the first `count` slots need shuffling
+  const count = Math.min(settings.count, pool.length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+};
@@ -0,0 +1,174 @@
+import { QuestionType, QuizAnswer, QuizQuestion } from "../types";
+
+// The quiz's question types: how each is described to the model, graded and
+// put into words. No model dependencies, so the quiz view, the server and the
+// tutor prompt share one definition of "correct".
+
+export const QUESTION_TYPES: Record<QuestionType, { label: string; guide: string }> = {
+  "multiple-choice": {
+    label: "Multiple choice",
+    guide: "exactly 4 options and the correctAnswerIndex (0-3) of the right one",
+  },
+  "true-false": {
+    label: "True or false",
+    guide: "a statement about the diagram as the question, and answer set to whether it is true",
+  },
+  "fill-in": {
+    label: "Fill in the blank",
+    guide: "a sentence with ___ marking one missing word or short phrase, and acceptedAnswers listing every acceptable wording",
+  },
+  ordering: {
+    label: "Put in order",
+    guide: "3 to 8 steps or stages of a process shown in the diagram, as items in their correct order",
+  },
+  matching: {
+    label: "Matching",
+    guide: "3 to 6 pairs, each a term labeled in the diagram and its short definition",
+  },
+};
+
+export const isQuestionType = (value: unknown): value is QuestionType =>
+  typeof value === "string" && Object.hasOwn(QUESTION_TYPES, value);
+
+/** Lowercased, without punctuation, extra spaces or a leading article: "The  Sun." -> "sun". */
+export const normalizeFillIn = (text: string): string =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^(a|an|the) /, "");
+
+/**
+ * For each position of an ordering answer, whether the item there is part of
+ * the longest run of items that are in the right order relative to each
+ * other. Moving one step to the wrong place only marks that step wrong,
+ * instead of every step it shifted.
+ */
+export const orderedPositions = (answer: number[]): boolean[] => {
+  // Longest increasing subsequence; orderings are short, so O(n^2) is fine
+  const length = answer.map(() => 1);
+  const previous = answer.map(() => -1);
+  for (let i = 0; i < answer.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (answer[j] < answer[i] && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  const inOrder = answer.map(() => false);
+  let end = length.indexOf(Math.max(0, ...length));
+  while (end !== -1) {
+    inOrder[end] = true;
+    end = previous[end];
+  }
+  return inOrder;
+};
+
+/** Credit from 0 to 1. Ordering and matching questions earn partial credit. */
+export const gradeAnswer = (question: QuizQuestion, answer: QuizAnswer | null): number => {
+  if (answer === null) return 0;
+
+  switch (question.type) {
+    case "multiple-choice":
+      return answer === question.correctAnswerIndex ? 1 : 0;
+    case "true-false":
+      return answer === question.answer ? 1 : 0;
+    case "fill-in": {
+      if (typeof answer !== "string") return 0;
+      const given = normalizeFillIn(answer);
+      return question.acceptedAnswers.some((accepted) => normalizeFillIn(accepted) === given) ? 1 : 0;
+    }
+    case "ordering":
+      if (!Array.isArray(answer) || answer.length !== question.items.length) return 0;
+      return orderedPositions(answer).filter(Boolean).length / answer.length;
+    case "matching":
+      if (!Array.isArray(answer) || answer.length !== question.pairs.length) return 0;
+      return answer.filter((choice, i) => choice === i).length / answer.length;
+  }
+};
+
+export const scoreQuiz = (questions: QuizQuestion[], answers: (QuizAnswer | null)[]): number =>
+  questions.reduce((score, question, i) => score + gradeAnswer(question, answers[i] ?? null), 0);
+
+/** Scores with partial credit to one decimal place: 2, 2.5. */
+export const formatScore = (score: number): string => String(Math.round(score * 10) / 10);
+
+/**
+ * A stable shuffle of `0..length-1` for presenting ordering items and
+ * matching definitions. Seeded by the question so the order survives
+ * re-renders, and never the identity, which would give the answer away.
+ */
+export const shuffledIndices = (length: number, seed: string): number[] => {
+  let state = 0;
+  for (const char of seed) state = (Math.imul(state, 31) + char.charCodeAt(0)) | 0;
+  const random = () => {
+    state = (Math.imul(state, 1103515245) + 12345) | 0;
+    return ((state >>> 16) & 0x7fff) / 0x8000;
+  };
+
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (length > 1 && order.every((value, i) => value === i)) order.push(order.shift()!);
+  return order;
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+/** The question with its choices as plain text, e.g. for the tutor prompt. */
+export const describeQuestion = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case "multiple-choice":
+      return [question.question, ...question.options.map((option, i) => `${letter(i)}. ${option}`)].join("\n");
+    case "true-false":
+      return `True or false: ${question.question}`;
+    case "fill-in":
+      return `Fill in the blank: ${question.question}`;
+    case "ordering":
+      return `${question.question}\nSteps to order: ${shuffledIndices(question.items.length, question.question).map((i) => question.items[i]).join("; ")}`;
+    case "matching":
+      return `${question.question}\nTerms: ${question.pairs.map((pair) => pair.term).join("; ")}`;
+  }
+};
+
+export const describeCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case "multiple-choice":
+      return `${letter(question.correctAnswerIndex)}. ${question.options[question.correctAnswerIndex]}`;
+    case "true-false":
+      return question.answer ? "True" : "False";
+    case "fill-in":
+      return question.acceptedAnswers.join(" / ");
+    case "ordering":
+      return question.items.map((item, i) => `${i + 1}. ${item}`).join("; ");
+    case "matching":
+      return question.pairs.map((pair) => `${pair.term} = ${pair.definition}`).join("; ");
+  }
+};
+
+/** The student's answer in words, or undefined if it doesn't fit the question. */
+export const describeAnswer = (question: QuizQuestion, answer: QuizAnswer): string | undefined => {
+  switch (question.type) {
+    case "multiple-choice":
+      return typeof answer === "number" && question.options[answer] !== undefined
+        ? `${letter(answer)}. ${question.options[answer]}`
+        : undefined;
+    case "true-false":
+      return typeof answer === "boolean" ? (answer ? "True" : "False") : undefined;
+    case "fill-in":
+      return typeof answer === "string" ? `"${answer}"` : undefined;
+    case "ordering":
+      return Array.isArray(answer)
+        ? answer.map((item, i) => `${i + 1}. ${question.items[item] ?? "?"}`).join("; ")
+        : undefined;
+    case "matching":
+      return Array.isArray(answer)
+        ? question.pairs.map((pair, i) => `${pair.term} = ${question.pairs[answer[i]]?.definition ?? "(none)"}`).join("; ")
+        : undefined;
+  }
+};
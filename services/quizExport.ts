@@ -0,0 +1,338 @@
+import { QuizQuestion } from "../types";
+import { describeCorrectAnswer, describeQuestion } from "./questionTypes";
+import { createZip } from "./zip";
+
+// Quizzes in the formats teachers load into an LMS or a flashcard app.
+// Every format carries the explanation as feedback; only QTI packages can
+// carry the diagram. services/quizImport.ts reads GIFT and QTI back in.
+
+export type ExportFormat = "qti" | "gift" | "csv" | "anki";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; description: string; extension: string }> = {
+  qti: { label: "IMS QTI 2.1", description: "Content package with the diagram, for most LMSs", extension: "zip" },
+  gift: { label: "Moodle GIFT", description: "Plain text for Moodle's question bank", extension: "gift.txt" },
+  csv: { label: "Kahoot / Quizlet CSV", description: "Spreadsheet rows; multiple choice, true/false and fill-in only", extension: "csv" },
+  anki: { label: "Anki deck", description: "Flashcards for File > Import in Anki", extension: "anki.txt" },
+};
+
+export interface ExportSource {
+  title: string; // Of the diagram; names the file, deck and package
+  image?: string | null; // Data URL of the diagram
+}
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+  skipped: number; // Questions the format has no way to express
+}
+
+// GIFT comments starting with this carry what GIFT can't express, so our own exports import losslessly
+export const GIFT_META_PREFIX = "// diagram-scholar ";
+
+/** A file name stem from the diagram title. */
+export const slugify = (text: string) =>
+  text
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "quiz";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+const escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// --- GIFT -------------------------------------------------------------------
+
+const escapeGift = (text: string) => text.replace(/([\\~=#{}:])/g, "\\$1").replace(/\r?\n/g, "\\n");
+
+/** GIFT has no ordering type, so ordering questions become matching against "Step n". */
+const giftAnswers = (question: QuizQuestion): string[] => {
+  switch (question.type) {
+    case "multiple-choice":
+      return question.options.map((option, i) => `${i === question.correctAnswerIndex ? "=" : "~"}${escapeGift(option)}`);
+    case "true-false":
+      return [question.answer ? "TRUE" : "FALSE"];
+    case "fill-in":
+      return question.acceptedAnswers.map((answer) => `=${escapeGift(answer)}`);
+    case "ordering":
+      return question.items.map((item, i) => `=${escapeGift(item)} -> Step ${i + 1}`);
+    case "matching":
+      return question.pairs.map((pair) => `=${escapeGift(pair.term)} -> ${escapeGift(pair.definition)}`);
+  }
+};
+
+export const toGift = (questions: QuizQuestion[], title: string): string => {
+  const blocks = questions.map((question, i) => {
+    const meta = {
+      ...(question.type === "ordering" && { type: question.type }),
+      ...(question.difficulty && { difficulty: question.difficulty }),
+      ...(question.concept && { concept: question.concept }),
+    };
+    const lines = Object.keys(meta).length ? [`${GIFT_META_PREFIX}${JSON.stringify(meta)}`] : [];
+    const feedback = `####${escapeGift(question.explanation)}`;
+    const answers = giftAnswers(question);
+    // True/false keeps its answer and feedback on one line, as Moodle's own exports do
+    const body =
+      question.type === "true-false"
+        ? `{${answers[0]}${feedback}}`
+        : ["{", ...answers.map((answer) => `\t${answer}`), `\t${feedback}`, "}"].join("\n");
+    lines.push(`::Q${i + 1}::${escapeGift(question.question)} ${body}`);
+    return lines.join("\n");
+  });
+  return [`// ${title.replace(/\r?\n/g, " ")}`, `// Exported from DiagramScholar`, "", blocks.join("\n\n"), ""].join("\n");
+};
+
+// --- CSV --------------------------------------------------------------------
+
+const CSV_HEADER = ["Question", "Answer 1", "Answer 2", "Answer 3", "Answer 4", "Time limit (sec)", "Correct answer(s)", "Explanation"];
+const CSV_TIME_LIMIT = 30;
+
+const csvField = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+/** Kahoot's spreadsheet columns, with the explanation added at the end. Fill-in rows have one, typed, answer. */
+export const toCsv = (questions: QuizQuestion[]): { content: string; skipped: number } => {
+  let skipped = 0;
+  const rows: (string | number)[][] = [];
+  for (const question of questions) {
+    let answers: string[];
+    let correct: string;
+    if (question.type === "multiple-choice") {
+      answers = question.options;
+      correct = String(question.correctAnswerIndex + 1);
+    } else if (question.type === "true-false") {
+      answers = ["True", "False"];
+      correct = question.answer ? "1" : "2";
+    } else if (question.type === "fill-in") {
+      answers = [question.acceptedAnswers[0]];
+      correct = "1";
+    } else {
+      skipped++;
+      continue;
+    }
+    const padded = [...answers, "", "", "", ""].slice(0, 4);
+    rows.push([question.question, ...padded, CSV_TIME_LIMIT, correct, question.explanation]);
+  }
+  // The byte order mark makes Excel read the file as UTF-8
+  const content = "\uFEFF" + [CSV_HEADER, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+  return { content, skipped };
+};
+
+// --- Anki -------------------------------------------------------------------
+
+const ankiField = (text: string) => escapeHtml(text).replace(/\t/g, " ").replace(/\r?\n/g, "<br>");
+
+const ankiTag = (text: string) => text.trim().replace(/\s+/g, "_");
+
+/** Tab-separated notes with Anki's file headers, so Basic cards import without any column mapping. */
+export const toAnki = (questions: QuizQuestion[], title: string): string => {
+  const headers = [
+    "#separator:tab",
+    "#html:true",
+    "#notetype:Basic",
+    `#deck:DiagramScholar::${title.replace(/[\t\r\n]+/g, " ").replace(/::/g, ":")}`,
+    "#tags column:3",
+  ];
+  const notes = questions.map((question) => {
+    const front = ankiField(describeQuestion(question));
+    const back = `<b>${ankiField(describeCorrectAnswer(question))}</b><br><br>${ankiField(question.explanation)}`;
+    const tags = ["diagram-scholar", question.difficulty, question.concept].filter(Boolean).map((tag) => ankiTag(tag!));
+    return [front, back, tags.join(" ")].join("\t");
+  });
+  return [...headers, ...notes, ""].join("\n");
+};
+
+// --- QTI 2.1 ----------------------------------------------------------------
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+/** QTI identifiers for true/false choices; the importer recognizes them. */
+export const QTI_TRUE = "TRUE";
+export const QTI_FALSE = "FALSE";
+
+const BLANK = /_{2,}/;
+
+interface QtiParts {
+  response: string; // responseDeclaration
+  body: string; // itemBody content after the image
+  scoring: "match" | "map";
+}
+
+const choiceId = (i: number) => String.fromCharCode(65 + i);
+
+const qtiParts = (question: QuizQuestion): QtiParts => {
+  const prompt = `<prompt>${escapeXml(question.question)}</prompt>`;
+  switch (question.type) {
+    case "multiple-choice":
+    case "true-false": {
+      const choices =
+        question.type === "true-false"
+          ? [
+              { id: QTI_TRUE, text: "True" },
+              { id: QTI_FALSE, text: "False" },
+            ]
+          : question.options.map((text, i) => ({ id: choiceId(i), text }));
+      const correct =
+        question.type === "true-false" ? (question.answer ? QTI_TRUE : QTI_FALSE) : choiceId(question.correctAnswerIndex);
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"><correctResponse><value>${correct}</value></correctResponse></responseDeclaration>`,
+        body: [
+          `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">`,
+          prompt,
+          ...choices.map(({ id, text }) => `<simpleChoice identifier="${id}">${escapeXml(text)}</simpleChoice>`),
+          `</choiceInteraction>`,
+        ].join("\n"),
+        scoring: "match",
+      };
+    }
+    case "fill-in": {
+      const [before, ...after] = question.question.split(BLANK);
+      const entry = `<textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(10, ...question.acceptedAnswers.map((a) => a.length))}"/>`;
+      const sentence = after.length
+        ? `${escapeXml(before)}${entry}${escapeXml(after.join("___"))}`
+        : `${escapeXml(question.question)} ${entry}`;
+      const entries = question.acceptedAnswers
+        .map((answer) => `<mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="false"/>`)
+        .join("");
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"><correctResponse><value>${escapeXml(question.acceptedAnswers[0])}</value></correctResponse><mapping defaultValue="0" upperBound="1">${entries}</mapping></responseDeclaration>`,
+        body: `<p>${sentence}</p>`,
+        scoring: "map",
+      };
+    }
+    case "ordering":
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier"><correctResponse>${question.items
+          .map((_, i) => `<value>S${i + 1}</value>`)
+          .join("")}</correctResponse></responseDeclaration>`,
+        body: [
+          `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">`,
+          prompt,
+          ...question.items.map((item, i) => `<simpleChoice identifier="S${i + 1}">${escapeXml(item)}</simpleChoice>`),
+          `</orderInteraction>`,
+        ].join("\n"),
+        scoring: "match",
+      };
+    case "matching": {
+      const share = Math.round((1 / question.pairs.length) * 10_000) / 10_000;
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair"><correctResponse>${question.pairs
+          .map((_, i) => `<value>T${i + 1} D${i + 1}</value>`)
+          .join("")}</correctResponse><mapping defaultValue="0" lowerBound="0" upperBound="1">${question.pairs
+          .map((_, i) => `<mapEntry mapKey="T${i + 1} D${i + 1}" mappedValue="${share}"/>`)
+          .join("")}</mapping></responseDeclaration>`,
+        body: [
+          `<matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${question.pairs.length}">`,
+          prompt,
+          `<simpleMatchSet>`,
+          ...question.pairs.map((pair, i) => `<simpleAssociableChoice identifier="T${i + 1}" matchMax="1">${escapeXml(pair.term)}</simpleAssociableChoice>`),
+          `</simpleMatchSet>`,
+          `<simpleMatchSet>`,
+          ...question.pairs.map((pair, i) => `<simpleAssociableChoice identifier="D${i + 1}" matchMax="1">${escapeXml(pair.definition)}</simpleAssociableChoice>`),
+          `</simpleMatchSet>`,
+          `</matchInteraction>`,
+        ].join("\n"),
+        scoring: "map",
+      };
+    }
+  }
+};
+
+// Full marks for a correct (or, with a mapping, partly correct) response; the explanation is always shown
+const qtiScoring = (scoring: QtiParts["scoring"]) => {
+  const score =
+    scoring === "match"
+      ? `<responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match><setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue></responseIf>`
+      : `<responseIf><not><isNull><variable identifier="RESPONSE"/></isNull></not><setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue></responseIf>`;
+  return `<responseProcessing><responseCondition>${score}</responseCondition><setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">GENERAL</baseValue></setOutcomeValue></responseProcessing>`;
+};
+
+const toQtiItem = (question: QuizQuestion, identifier: string, imageFile: string | null): string => {
+  const parts = qtiParts(question);
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}" identifier="${identifier}" title="${escapeXml(question.question.slice(0, 200))}" adaptive="false" timeDependent="false">`,
+    parts.response,
+    `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>`,
+    `<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>`,
+    `<itemBody>`,
+    ...(imageFile ? [`<p><img src="${imageFile}" alt="Diagram"/></p>`] : []),
+    parts.body,
+    `</itemBody>`,
+    qtiScoring(parts.scoring),
+    `<modalFeedback outcomeIdentifier="FEEDBACK" identifier="GENERAL" showHide="show"><p>${escapeXml(question.explanation)}</p></modalFeedback>`,
+    `</assessmentItem>`,
+    "",
+  ].join("\n");
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp", "image/gif": "gif" };
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/** A QTI 2.1 content package: one item per question, sharing the diagram image. */
+export const toQtiPackage = (questions: QuizQuestion[], { title, image }: ExportSource): Blob => {
+  const encoder = new TextEncoder();
+  const mimeType = image?.match(/^data:([^;]+);/)?.[1];
+  const imageFile = image && mimeType && IMAGE_EXTENSIONS[mimeType] ? `diagram.${IMAGE_EXTENSIONS[mimeType]}` : null;
+  const items = questions.map((question, i) => ({ identifier: `item${i + 1}`, xml: toQtiItem(question, `item${i + 1}`, imageFile) }));
+
+  const manifest = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" identifier="${slugify(title)}-manifest" xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd">`,
+    `<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>`,
+    `<organizations/>`,
+    `<resources>`,
+    ...items.map(({ identifier }) =>
+      [
+        `<resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${identifier}.xml">`,
+        `<file href="${identifier}.xml"/>`,
+        ...(imageFile ? [`<dependency identifierref="diagram"/>`] : []),
+        `</resource>`,
+      ].join("")
+    ),
+    ...(imageFile ? [`<resource identifier="diagram" type="webcontent" href="${imageFile}"><file href="${imageFile}"/></resource>`] : []),
+    `</resources>`,
+    `</manifest>`,
+    "",
+  ].join("\n");
+
+  return createZip([
+    { name: "imsmanifest.xml", data: encoder.encode(manifest) },
+    ...items.map(({ identifier, xml }) => ({ name: `${identifier}.xml`, data: encoder.encode(xml) })),
+    ...(imageFile ? [{ name: imageFile, data: dataUrlToBytes(image!) }] : []),
+  ]);
+};
+
+// ----------------------------------------------------------------------------
+
+export const exportQuestions = (format: ExportFormat, questions: QuizQuestion[], source: ExportSource): ExportFile => {
+  const filename = `${slugify(source.title)}.${EXPORT_FORMATS[format].extension}`;
+  switch (format) {
+    case "qti":
+      return { blob: toQtiPackage(questions, source), filename, skipped: 0 };
+    case "gift":
+      return { blob: new Blob([toGift(questions, source.title)], { type: "text/plain;charset=utf-8" }), filename, skipped: 0 };
+    case "csv": {
+      const { content, skipped } = toCsv(questions);
+      return { blob: new Blob([content], { type: "text/csv;charset=utf-8" }), filename, skipped };
+    }
+    case "anki":
+      return { blob: new Blob([toAnki(questions, source.title)], { type: "text/plain;charset=utf-8" }), filename, skipped: 0 };
+  }
+};
+
+/** Saves a file through the browser's download prompt. */
+export const downloadFile = ({ blob, filename }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
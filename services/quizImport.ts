@@ -0,0 +1,290 @@
+import { QuizQuestion } from "../types";
+import { GIFT_META_PREFIX, QTI_FALSE, QTI_TRUE } from "./quizExport";
+import { checkQuizQuestion } from "./validation";
+import { readZip } from "./zip";
+
+// Reads quizzes back from GIFT text and QTI 2.1 items or packages, such as
+// ones exported here and then edited in an LMS. Parsed questions go through
+// the same checks as model output, so the quiz view can rely on them.
+
+export interface ImportResult {
+  questions: QuizQuestion[];
+  skipped: string[]; // Why each question that couldn't be used was left out
+}
+
+// Questions written elsewhere may have no feedback; the quiz always shows one
+const MISSING_EXPLANATION = "No explanation was included with this question.";
+
+/** Raw fields in the shape the model sends, for checkQuizQuestion. */
+type RawQuestion = Record<string, unknown>;
+
+const snippet = (text: string) => (text.length > 50 ? `${text.slice(0, 47)}...` : text);
+
+/** Validates parsed questions, keeping the good ones and a reason for each of the rest. */
+const collect = (parsed: { label: string; raw: RawQuestion | string }[]): ImportResult => {
+  const result: ImportResult = { questions: [], skipped: [] };
+  for (const { label, raw } of parsed) {
+    if (typeof raw === "string") {
+      result.skipped.push(`${label}: ${raw}`);
+      continue;
+    }
+    const checked = checkQuizQuestion({ explanation: MISSING_EXPLANATION, ...raw }, label);
+    if (checked.value) result.questions.push(checked.value);
+    else result.skipped.push(checked.errors.map((error) => `${error.path}: ${error.message}`).join("; "));
+  }
+  return result;
+};
+
+// --- GIFT -------------------------------------------------------------------
+
+/** Index of `token` in `text` at or after `from`, skipping backslash-escaped characters; -1 if absent. */
+const findUnescaped = (text: string, token: string, from = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+};
+
+const unescapeGift = (text: string) => text.replace(/\\(.)/g, (_, char: string) => (char === "n" ? "\n" : char)).trim();
+
+/** Splits an answer block into its `=` and `~` answers, with weights and per-answer feedback removed. */
+const giftAnswerTokens = (block: string): { correct: boolean; text: string }[] => {
+  const tokens: { correct: boolean; raw: string }[] = [];
+  for (let i = 0; i < block.length; i++) {
+    if (block[i] === "\\") {
+      if (tokens.length) tokens[tokens.length - 1].raw += block.slice(i, i + 2);
+      i++;
+    } else if (block[i] === "=" || block[i] === "~") {
+      tokens.push({ correct: block[i] === "=", raw: "" });
+    } else if (tokens.length) {
+      tokens[tokens.length - 1].raw += block[i];
+    }
+  }
+  return tokens.map(({ correct, raw }) => {
+    const weight = raw.match(/^\s*%(-?[\d.]+)%/);
+    const withoutWeight = weight ? raw.slice(weight[0].length) : raw;
+    const feedbackAt = findUnescaped(withoutWeight, "#");
+    const text = feedbackAt === -1 ? withoutWeight : withoutWeight.slice(0, feedbackAt);
+    // "~%100%" marks a right answer too
+    return { correct: correct || (weight !== null && Number(weight[1]) >= 100), text };
+  });
+};
+
+const parseGiftQuestion = (source: string, meta: Record<string, unknown>): RawQuestion | string => {
+  let text = source.trim();
+  if (text.startsWith("::")) {
+    const titleEnd = findUnescaped(text, "::", 2);
+    if (titleEnd !== -1) text = text.slice(titleEnd + 2).trim();
+  }
+  text = text.replace(/^\[(html|moodle|plain|markdown)\]/, "");
+
+  const open = findUnescaped(text, "{");
+  const close = open === -1 ? -1 : findUnescaped(text, "}", open);
+  if (open === -1 || close === -1) return "not a question (no answer block)";
+
+  const before = unescapeGift(text.slice(0, open));
+  const after = unescapeGift(text.slice(close + 1));
+  // Text on both sides of the answers is Moodle's "missing word" format
+  const question = after ? `${before} ___ ${after}` : before;
+
+  let answers = text.slice(open + 1, close);
+  const feedbackAt = findUnescaped(answers, "####");
+  const explanation = feedbackAt === -1 ? undefined : unescapeGift(answers.slice(feedbackAt + 4));
+  if (feedbackAt !== -1) answers = answers.slice(0, feedbackAt);
+  answers = answers.trim();
+  const base = { question, ...(explanation && { explanation }), difficulty: meta.difficulty, concept: meta.concept };
+
+  const trueFalse = answers.match(/^(T|TRUE|F|FALSE)\s*(#|$)/i);
+  if (trueFalse) return { ...base, type: "true-false", answer: trueFalse[1].toUpperCase().startsWith("T") };
+  if (answers.startsWith("#")) return "numerical questions aren't supported";
+  if (!answers) return "essay questions aren't supported";
+
+  const tokens = giftAnswerTokens(answers);
+  if (tokens.length === 0) return "no answers found";
+
+  const isMatching = tokens.every((token) => token.correct && findUnescaped(token.text, "->") !== -1);
+  if (isMatching) {
+    const pairs = tokens.map((token) => {
+      const arrow = findUnescaped(token.text, "->");
+      return { term: unescapeGift(token.text.slice(0, arrow)), definition: unescapeGift(token.text.slice(arrow + 2)) };
+    });
+    // Our exports write ordering questions as items matched to "Step n"
+    if (meta.type === "ordering") {
+      const step = (definition: string) => Number(definition.match(/\d+/)?.[0] ?? NaN);
+      const items = [...pairs].sort((a, b) => step(a.definition) - step(b.definition)).map((pair) => pair.term);
+      return { ...base, type: "ordering", items };
+    }
+    return { ...base, type: "matching", pairs };
+  }
+
+  const texts = tokens.map((token) => unescapeGift(token.text));
+  if (tokens.some((token) => !token.correct)) {
+    return { ...base, type: "multiple-choice", options: texts, correctAnswerIndex: tokens.findIndex((token) => token.correct) };
+  }
+  // Moodle's short answers are often listed in several capitalizations; ours ignore case anyway
+  const acceptedAnswers = texts.filter((answer, i) => texts.findIndex((other) => other.toLowerCase() === answer.toLowerCase()) === i);
+  return { ...base, type: "fill-in", acceptedAnswers };
+};
+
+/** Questions are separated by blank lines; `//` lines are comments, except for our metadata. */
+export const parseGift = (text: string): ImportResult => {
+  const parsed: { label: string; raw: RawQuestion | string }[] = [];
+  const blocks = text.replace(/^\uFEFF/, "").split(/\r?\n\s*\r?\n/);
+
+  for (const block of blocks) {
+    let meta: Record<string, unknown> = {};
+    const lines: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith(GIFT_META_PREFIX.trim())) {
+        try {
+          meta = JSON.parse(trimmed.slice(GIFT_META_PREFIX.trim().length));
+        } catch {
+          // A hand-edited comment; the question still imports without it
+        }
+      } else if (!trimmed.startsWith("//") && !trimmed.startsWith("$CATEGORY:")) {
+        lines.push(line);
+      }
+    }
+    const source = lines.join("\n").trim();
+    if (!source) continue;
+    parsed.push({ label: `Question ${parsed.length + 1} ("${snippet(source.replace(/^::.*?::/, "").trim())}")`, raw: parseGiftQuestion(source, meta) });
+  }
+
+  return collect(parsed);
+};
+
+// --- QTI 2.1 ----------------------------------------------------------------
+
+const INTERACTIONS = ["choiceInteraction", "textEntryInteraction", "orderInteraction", "matchInteraction"];
+
+const textOf = (element: Element | null | undefined) => (element?.textContent ?? "").replace(/\s+/g, " ").trim();
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("That file isn't well-formed XML.");
+  return doc;
+};
+
+/** The item's text with `interaction` replaced by a blank and images left out. */
+const textAround = (itemBody: Element, interaction: Element): string => {
+  const copy = itemBody.cloneNode(true) as Element;
+  const index = Array.from(itemBody.getElementsByTagName("*")).indexOf(interaction);
+  const target = copy.getElementsByTagName("*")[index];
+  target.replaceWith(copy.ownerDocument.createTextNode(" ___ "));
+  return textOf(copy).replace(/\s+([.,;:?!])/g, "$1");
+};
+
+const parseQtiItem = (doc: Document): RawQuestion | string | null => {
+  const item = doc.querySelector("assessmentItem");
+  if (!item) return null; // A test, a manifest or some other document in the package
+
+  const itemBody = item.querySelector("itemBody");
+  const interactions = Array.from(item.getElementsByTagName("*")).filter((element) => element.localName.endsWith("Interaction"));
+  const interaction = interactions[0];
+  if (!itemBody || !interaction) return "no interaction found";
+  if (interactions.length > 1) return "items with more than one interaction aren't supported";
+  if (!INTERACTIONS.includes(interaction.localName)) return `${interaction.localName} isn't supported`;
+
+  const responseId = interaction.getAttribute("responseIdentifier");
+  const declaration = Array.from(item.querySelectorAll("responseDeclaration")).find(
+    (element) => element.getAttribute("identifier") === responseId
+  );
+  const correct = Array.from(declaration?.querySelectorAll("correctResponse > value") ?? []).map(textOf);
+  const feedback = item.querySelector("modalFeedback") ?? item.querySelector("feedbackBlock");
+  const explanation = textOf(feedback);
+  const prompt = textOf(interaction.querySelector("prompt"));
+  const base = { ...(explanation && { explanation }), question: prompt || textAround(itemBody, interaction) };
+
+  switch (interaction.localName) {
+    case "choiceInteraction": {
+      if (Number(interaction.getAttribute("maxChoices") ?? 1) !== 1) return "multiple-response questions aren't supported";
+      const choices = Array.from(interaction.querySelectorAll("simpleChoice")).map((choice) => ({
+        id: choice.getAttribute("identifier") ?? "",
+        text: textOf(choice),
+      }));
+      const isTrueFalse =
+        choices.length === 2 &&
+        choices.every(({ id, text }) => [QTI_TRUE, QTI_FALSE].includes(id.toUpperCase()) || /^(true|false)$/i.test(text));
+      const chosen = choices.find((choice) => choice.id === correct[0]);
+      if (!chosen) return "no correct answer given";
+      if (isTrueFalse) {
+        return { ...base, type: "true-false", answer: chosen.id.toUpperCase() === QTI_TRUE || /^true$/i.test(chosen.text) };
+      }
+      return { ...base, type: "multiple-choice", options: choices.map(({ text }) => text), correctAnswerIndex: choices.indexOf(chosen) };
+    }
+    case "textEntryInteraction": {
+      const mapped = Array.from(declaration?.querySelectorAll("mapEntry") ?? [])
+        .filter((entry) => Number(entry.getAttribute("mappedValue")) > 0)
+        .map((entry) => entry.getAttribute("mapKey") ?? "");
+      const acceptedAnswers = [...new Set([...correct, ...mapped].filter(Boolean))];
+      return { ...base, type: "fill-in", question: textAround(itemBody, interaction), acceptedAnswers };
+    }
+    case "orderInteraction": {
+      const choices = new Map(Array.from(interaction.querySelectorAll("simpleChoice")).map((choice) => [choice.getAttribute("identifier"), textOf(choice)]));
+      return { ...base, type: "ordering", items: correct.map((id) => choices.get(id) ?? "") };
+    }
+    case "matchInteraction": {
+      const [terms, definitions] = Array.from(interaction.querySelectorAll("simpleMatchSet")).map(
+        (set) => new Map(Array.from(set.querySelectorAll("simpleAssociableChoice")).map((choice) => [choice.getAttribute("identifier"), textOf(choice)]))
+      );
+      if (!terms || !definitions) return "matching needs two sets of choices";
+      const pairs = correct.map((value) => {
+        const [term, definition] = value.split(/\s+/);
+        return { term: terms.get(term) ?? "", definition: definitions.get(definition) ?? "" };
+      });
+      return { ...base, type: "matching", pairs };
+    }
+  }
+  return "unsupported interaction";
+};
+
+/** QTI items, in manifest order when the package has one. */
+export const parseQtiPackage = async (blob: Blob): Promise<ImportResult> => {
+  const files = await readZip(blob);
+  const decoder = new TextDecoder();
+  const manifest = files.get("imsmanifest.xml");
+  let paths = [...files.keys()].filter((path) => path.toLowerCase().endsWith(".xml") && path !== "imsmanifest.xml");
+
+  if (manifest) {
+    const resources = Array.from(parseXml(decoder.decode(manifest)).querySelectorAll("resource"))
+      .filter((resource) => resource.getAttribute("type")?.startsWith("imsqti_item"))
+      .map((resource) => resource.getAttribute("href") ?? "");
+    if (resources.length) paths = resources.filter((path) => files.has(path));
+  }
+
+  const parsed: { label: string; raw: RawQuestion | string }[] = [];
+  for (const path of paths) {
+    const raw = parseQtiItem(parseXml(decoder.decode(files.get(path)!)));
+    if (raw) parsed.push({ label: path, raw });
+  }
+  return collect(parsed);
+};
+
+export const parseQtiItemXml = (text: string): ImportResult => {
+  const raw = parseQtiItem(parseXml(text));
+  if (!raw) throw new Error("That XML file isn't a QTI 2.1 assessment item.");
+  return collect([{ label: "Item", raw }]);
+};
+
+// ----------------------------------------------------------------------------
+
+export const IMPORT_ACCEPT = ".gift,.txt,.xml,.zip";
+
+/** Reads a GIFT file, a QTI item (.xml) or a QTI content package (.zip). */
+export const importQuestions = async (file: File): Promise<ImportResult> => {
+  const name = file.name.toLowerCase();
+  const result = name.endsWith(".zip")
+    ? await parseQtiPackage(file)
+    : name.endsWith(".xml")
+      ? parseQtiItemXml(await file.text())
+      : parseGift(await file.text());
+  if (result.questions.length === 0 && result.skipped.length === 0) {
+    throw new Error("No questions were found in that file.");
+  }
+  return result;
+};
@@ -0,0 +1,79 @@
+import { AnalysisResult, QuestionDifficulty, QuizQuestion, QuizSettings } from "../types";
+import { explanationTerms } from "./explanation";
+
+// Options for "Generate New Questions". Like `audienceProfile.ts`, this has no
+// model dependencies so the quiz settings panel and the server share it.
+
+export const QUESTION_DIFFICULTIES: Record<QuestionDifficulty, { label: string; description: string }> = {
+  recall: { label: "Recall", description: "remembering labeled parts, facts and definitions" },
+  application: { label: "Application", description: "using a concept from the diagram in a new situation" },
+  analysis: { label: "Analysis", description: "reasoning about relationships, causes and effects between parts" },
+};
+
+export const QUIZ_COUNT_RANGE = { min: 1, max: 20 };
+
+const MAX_FOCUS_TOPICS = 8;
+const MAX_TOPIC_LENGTH = 60;
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  count: 3,
+  difficulty: "mixed",
+  focusTopics: [],
+};
+
+const isDifficulty = (value: unknown): value is QuestionDifficulty =>
+  typeof value === "string" && Object.hasOwn(QUESTION_DIFFICULTIES, value);
+
+export const normalizeDifficulty = (value: unknown): QuestionDifficulty | undefined => {
+  const text = typeof value === "string" ? value.trim().toLowerCase() : value;
+  return isDifficulty(text) ? text : undefined;
+};
+
+/** Coerces untrusted input (a request body) into valid settings. */
+export const normalizeQuizSettings = (value: unknown): QuizSettings => {
+  const input = (value ?? {}) as Partial<Record<keyof QuizSettings, unknown>>;
+  const count = Math.round(Number(input.count));
+
+  return {
+    count: Number.isFinite(count)
+      ? Math.min(QUIZ_COUNT_RANGE.max, Math.max(QUIZ_COUNT_RANGE.min, count))
+      : DEFAULT_QUIZ_SETTINGS.count,
+    difficulty: isDifficulty(input.difficulty) ? input.difficulty : "mixed",
+    // Topics end up in the prompt, so keep them short, single-line and few
+    focusTopics: Array.isArray(input.focusTopics)
+      ? input.focusTopics
+          .filter((topic): topic is string => typeof topic === "string")
+          .map((topic) => topic.replace(/\s+/g, " ").trim().slice(0, MAX_TOPIC_LENGTH))
+          .filter(Boolean)
+          .slice(0, MAX_FOCUS_TOPICS)
+      : [],
+  };
+};
+
+/**
+ * Candidate focus topics for a diagram: the explanation's key terms and
+ * components, and the concepts quiz questions test.
+ */
+export const extractTopics = (result: Pick<AnalysisResult, "explanation" | "quiz">): string[] => {
+  const terms = explanationTerms(result.explanation).map((term) => term.trim());
+  const concepts = result.quiz.map((q) => q.concept?.trim() ?? "");
+
+  const topics = new Map<string, string>();
+  for (const topic of [...terms, ...concepts]) {
+    const key = topic.toLowerCase().replace(/[:.]$/, "");
+    if (key && !topics.has(key)) topics.set(key, topic.replace(/[:.]$/, ""));
+  }
+  return [...topics.values()].slice(0, 16);
+};
+
+/** Whether a question suits the settings; untagged questions only suit the unfiltered defaults. */
+export const matchesQuizSettings = (question: QuizQuestion, { difficulty, focusTopics }: QuizSettings): boolean => {
+  if (difficulty !== "mixed" && question.difficulty !== difficulty) return false;
+  if (focusTopics.length === 0) return true;
+
+  const concept = question.concept?.toLowerCase();
+  return !!concept && focusTopics.some((topic) => {
+    const wanted = topic.toLowerCase();
+    return concept.includes(wanted) || wanted.includes(concept);
+  });
+};
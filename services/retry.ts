@@ -0,0 +1,70 @@
+import { ModelServiceError, QuotaExceededError, classifyError } from "./errors";
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+  retries?: number; // Extra attempts after the first
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // After a quota error, wait as long as the server asked, or else this long, instead of backing off
+  quotaDelayMs?: number;
+  fallbackMessage?: string; // Message for errors that can't be classified
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the call, including any retries still pending
+  timeoutMs?: number; // Overall deadline, retries included
+}
+
+/** One signal that fires on either caller cancellation or the deadline. */
+export const withDeadline = ({ signal, timeoutMs }: RequestOptions, defaultTimeoutMs: number): AbortSignal => {
+  const deadline = AbortSignal.timeout(timeoutMs ?? defaultTimeoutMs);
+  return signal ? AbortSignal.any([signal, deadline]) : deadline;
+};
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it aborts. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `task`, retrying transient failures (see ModelServiceError.retryable)
+ * with exponential backoff and jitter. Always rejects with a classified error.
+ */
+export const withRetry = async <T>(
+  task: (attempt: number) => Promise<T>,
+  { signal, retries = 3, baseDelayMs = 1000, maxDelayMs = 10000, quotaDelayMs, fallbackMessage = "Something went wrong." }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      // Whatever the provider surfaced, an aborted signal means cancel or timeout
+      const classified: ModelServiceError = classifyError(signal?.aborted ? signal.reason : error, fallbackMessage);
+      if (!classified.retryable || attempt >= retries) throw classified;
+
+      const delay =
+        classified instanceof QuotaExceededError && quotaDelayMs !== undefined
+          ? classified.retryAfterMs ?? quotaDelayMs
+          : Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`${classified.name} on attempt ${attempt + 1}, retrying in ${Math.round(delay)}ms`, error);
+      try {
+        await sleep(delay, signal);
+      } catch (reason) {
+        throw classifyError(reason, fallbackMessage);
+      }
+    }
+  }
+};
@@ -0,0 +1,97 @@
+// Helpers for consuming model output as it streams in.
+
+/** Concatenates text chunks, reporting the accumulated text after each one. */
+export const readTextStream = async (
+  chunks: AsyncIterable<string>,
+  onText?: (textSoFar: string) => void
+): Promise<string> => {
+  let text = "";
+  for await (const chunk of chunks) {
+    if (!chunk) continue;
+    text += chunk;
+    onText?.(text);
+  }
+  return text;
+};
+
+/** Yields the lines of a UTF-8 response body as they complete; a final unterminated line is yielded too. */
+export async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    yield* lines;
+  }
+  if (buffer) yield buffer;
+}
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const closersFor = (stack: string[]) =>
+  stack.map((open) => (open === "{" ? "}" : "]")).reverse().join("");
+
+/**
+ * Best-effort parse of a JSON document that has been cut off mid-stream.
+ * An unterminated string value is closed where it stops, so long fields can
+ * be shown while they are still being written. Anything that cannot be
+ * completed (a dangling key, half a number or literal) is dropped back to
+ * the last complete value. Returns undefined if nothing usable has arrived.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  // Prefixes known to end on a value boundary, with the brackets they need closing
+  let lastSafe: { end: number; closers: string } | null = null;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch);
+      lastSafe = { end: i + 1, closers: closersFor(stack) };
+    } else if (ch === "}" || ch === "]") {
+      stack.pop();
+      lastSafe = { end: i + 1, closers: closersFor(stack) };
+    } else if (ch === ",") {
+      lastSafe = { end: i, closers: closersFor(stack) };
+    }
+  }
+
+  let completed = text;
+  if (inString) {
+    // Drop a half-written escape sequence before closing the string
+    completed = (escaped ? completed.slice(0, -1) : completed.replace(/\\u[0-9a-fA-F]{0,3}$/, "")) + '"';
+  }
+  const whole = tryParse(completed + closersFor(stack));
+  if (whole !== undefined) return whole;
+
+  return lastSafe ? tryParse(text.slice(0, lastSafe.end) + lastSafe.closers) : undefined;
+};
+
+/** Adapts a partial-object callback to the accumulated-text callback of `readTextStream`. */
+export const partialJsonReporter = <T extends object>(onPartial?: (partial: T) => void) =>
+  onPartial &&
+  ((textSoFar: string) => {
+    const partial = parsePartialJson(textSoFar);
+    if (partial && typeof partial === "object" && !Array.isArray(partial)) {
+      onPartial(partial as T);
+    }
+  });
@@ -0,0 +1,579 @@
+import {
+  AnalysisResult,
+  BoundingBox,
+  DiagramLabel,
+  ExplanationSection,
+  Hotspot,
+  MatchingPair,
+  QuestionType,
+  QuizQuestion,
+  RelationshipStep,
+  StructuredExplanation,
+  ValidationIssue,
+} from "../types";
+import { ModelOutputError, NotADiagramError } from "./errors";
+import { fromLegacyMarkdown } from "./explanation";
+import { QUESTION_TYPES, isQuestionType } from "./questionTypes";
+import { normalizeDifficulty } from "./quizSettings";
+
+// Runtime checks for model output. Anything the UI depends on (four options,
+// an in-range answer index, enough items to order, non-empty text) is verified here; problems that
+// have exactly one sensible fix are repaired and reported, the rest are
+// returned as errors so the caller can re-ask the model or degrade.
+
+export const OPTION_COUNT = 4;
+export const ORDERING_ITEM_RANGE = { min: 3, max: 8 };
+export const MATCHING_PAIR_RANGE = { min: 3, max: 6 };
+
+export interface CheckResult<T> {
+  value: T | null; // null when errors make the value unusable
+  repairs: ValidationIssue[]; // Problems that were fixed in `value`
+  errors: ValidationIssue[];
+}
+
+export interface QuizCheckResult {
+  questions: QuizQuestion[]; // Valid (possibly repaired) questions, in order
+  invalid: { raw: unknown; errors: ValidationIssue[] }[];
+  repairs: ValidationIssue[];
+}
+
+export interface AnalysisCheckResult {
+  value: AnalysisResult; // quiz holds only valid questions
+  invalidQuestions: QuizCheckResult["invalid"];
+  repairs: ValidationIssue[];
+  errors: ValidationIssue[]; // Non-quiz problems that could not be repaired
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `an array of ${value.length}`;
+  if (typeof value === "string") return value.trim() ? `"${value.length > 40 ? value.slice(0, 40) + "…" : value}"` : "an empty string";
+  return typeof value === "number" ? String(value) : `a ${typeof value}`;
+};
+
+// "A) Foo", "b. Foo", "(C) Foo" -> "Foo"
+const OPTION_LABEL = /^\(?([A-Da-d])[).:]\s+/;
+
+const checkText = (value: unknown, path: string, errors: ValidationIssue[]): string => {
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push({ path, message: `expected non-empty text, got ${describe(value)}` });
+    return "";
+  }
+  return value.trim();
+};
+
+const checkOptions = (value: unknown, path: string, repairs: ValidationIssue[], errors: ValidationIssue[]): string[] => {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `expected an array of ${OPTION_COUNT} options, got ${describe(value)}` });
+    return [];
+  }
+
+  let options = value.map((option, i) => {
+    if (typeof option === "number") {
+      repairs.push({ path: `${path}[${i}]`, message: "converted number to text" });
+      return String(option);
+    }
+    return checkText(option, `${path}[${i}]`, errors);
+  });
+
+  // Strip "A) " style labels only when every option carries its own letter in order
+  const labelled = options.every((option, i) => option.match(OPTION_LABEL)?.[1].toUpperCase() === String.fromCharCode(65 + i));
+  if (options.length > 0 && labelled) {
+    options = options.map((option) => option.replace(OPTION_LABEL, ""));
+    repairs.push({ path, message: "removed letter labels from options" });
+  }
+
+  if (options.length !== OPTION_COUNT) {
+    errors.push({ path, message: `expected exactly ${OPTION_COUNT} options, got ${options.length}` });
+  }
+
+  const seen = new Set<string>();
+  options.forEach((option, i) => {
+    const key = option.toLowerCase();
+    if (option && seen.has(key)) {
+      errors.push({ path: `${path}[${i}]`, message: `duplicate option "${option}"` });
+    }
+    seen.add(key);
+  });
+
+  return options;
+};
+
+const checkAnswerIndex = (
+  value: unknown,
+  options: string[],
+  path: string,
+  repairs: ValidationIssue[],
+  errors: ValidationIssue[]
+): number => {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0 && value < OPTION_COUNT) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (/^[0-3]$/.test(text)) {
+      repairs.push({ path, message: `converted "${text}" to a number` });
+      return Number(text);
+    }
+    if (/^[A-Da-d]$/.test(text)) {
+      repairs.push({ path, message: `converted letter "${text}" to an index` });
+      return text.toUpperCase().charCodeAt(0) - 65;
+    }
+    // Some models answer with the option text itself
+    const matching = options.findIndex((option) => option.toLowerCase() === text.toLowerCase());
+    if (matching !== -1) {
+      repairs.push({ path, message: "converted option text to its index" });
+      return matching;
+    }
+  }
+
+  errors.push({ path, message: `expected an integer from 0 to ${OPTION_COUNT - 1}, got ${describe(value)}` });
+  return -1;
+};
+
+const checkBoolean = (value: unknown, path: string, repairs: ValidationIssue[], errors: ValidationIssue[]): boolean => {
+  if (typeof value === "boolean") return value;
+  const text = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (text === "true" || text === "false") {
+    repairs.push({ path, message: `converted "${value}" to a boolean` });
+    return text === "true";
+  }
+  errors.push({ path, message: `expected true or false, got ${describe(value)}` });
+  return false;
+};
+
+/** A list of distinct, non-empty strings; a lone string is accepted as a list of one. */
+const checkTextList = (
+  value: unknown,
+  path: string,
+  { min, max }: { min: number; max: number },
+  repairs: ValidationIssue[],
+  errors: ValidationIssue[]
+): string[] => {
+  if (typeof value === "string" && min <= 1) {
+    repairs.push({ path, message: "wrapped a single answer in a list" });
+    value = [value];
+  }
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `expected a list of ${min} to ${max} entries, got ${describe(value)}` });
+    return [];
+  }
+
+  const items = value.map((item, i) => checkText(item, `${path}[${i}]`, errors));
+  if (items.length < min || items.length > max) {
+    errors.push({ path, message: `expected ${min} to ${max} entries, got ${items.length}` });
+  }
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (item && seen.has(item.toLowerCase())) errors.push({ path: `${path}[${i}]`, message: `duplicate entry "${item}"` });
+    seen.add(item.toLowerCase());
+  });
+  return items;
+};
+
+const checkPairs = (value: unknown, path: string, errors: ValidationIssue[]): MatchingPair[] => {
+  const { min, max } = MATCHING_PAIR_RANGE;
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `expected a list of ${min} to ${max} term/definition pairs, got ${describe(value)}` });
+    return [];
+  }
+  if (value.length < min || value.length > max) {
+    errors.push({ path, message: `expected ${min} to ${max} pairs, got ${value.length}` });
+  }
+
+  const pairs = value.map((pair, i) => ({
+    term: checkText(isRecord(pair) ? pair.term : undefined, `${path}[${i}].term`, errors),
+    definition: checkText(isRecord(pair) ? pair.definition : undefined, `${path}[${i}].definition`, errors),
+  }));
+  // A repeated term or definition would make two matchings equally right
+  for (const field of ["term", "definition"] as const) {
+    const seen = new Set<string>();
+    pairs.forEach((pair, i) => {
+      const key = pair[field].toLowerCase();
+      if (key && seen.has(key)) errors.push({ path: `${path}[${i}].${field}`, message: `duplicate ${field} "${pair[field]}"` });
+      seen.add(key);
+    });
+  }
+  return pairs;
+};
+
+// "True/False", "fill_in_the_blank", "Multiple Choice" -> the QuestionType they mean
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  "true-false": "true-false",
+  "fill-in-the-blank": "fill-in",
+  "fill-in-blank": "fill-in",
+  "fill-in": "fill-in",
+  order: "ordering",
+  sequence: "ordering",
+  match: "matching",
+};
+
+const checkType = (raw: Record<string, unknown>, path: string, repairs: ValidationIssue[], errors: ValidationIssue[]) => {
+  if (isQuestionType(raw.type)) return raw.type;
+
+  // Questions saved before there were other types have options but no type
+  if (raw.type === undefined && Array.isArray(raw.options)) return "multiple-choice";
+
+  const text = typeof raw.type === "string" ? raw.type.trim().toLowerCase().replace(/[\s_/]+/g, "-") : "";
+  const type = isQuestionType(text) ? text : TYPE_ALIASES[text];
+  if (type) {
+    repairs.push({ path, message: `normalized ${describe(raw.type)}` });
+    return type;
+  }
+  errors.push({ path, message: `expected one of ${Object.keys(QUESTION_TYPES).join(", ")}, got ${describe(raw.type)}` });
+  return undefined;
+};
+
+export const checkQuizQuestion = (raw: unknown, path: string): CheckResult<QuizQuestion> => {
+  const repairs: ValidationIssue[] = [];
+  const errors: ValidationIssue[] = [];
+
+  if (!isRecord(raw)) {
+    return { value: null, repairs, errors: [{ path, message: `expected a question object, got ${describe(raw)}` }] };
+  }
+
+  const type = checkType(raw, `${path}.type`, repairs, errors);
+  const question = checkText(raw.question, `${path}.question`, errors);
+  const explanation = checkText(raw.explanation, `${path}.explanation`, errors);
+
+  // Tags are helpful but optional: a bad one is dropped rather than failing the question
+  const difficulty = normalizeDifficulty(raw.difficulty);
+  if (raw.difficulty !== undefined && raw.difficulty !== difficulty) {
+    repairs.push({
+      path: `${path}.difficulty`,
+      message: difficulty ? `normalized ${describe(raw.difficulty)}` : `dropped unknown difficulty ${describe(raw.difficulty)}`,
+    });
+  }
+  const concept = typeof raw.concept === "string" ? raw.concept.trim() : "";
+  const base = { question, explanation, ...(difficulty && { difficulty }), ...(concept && { concept }) };
+
+  // Only the fields of the question's own type are checked and kept; the schema sends the rest as null
+  let value: QuizQuestion | null = null;
+  switch (type) {
+    case "multiple-choice": {
+      const options = checkOptions(raw.options, `${path}.options`, repairs, errors);
+      const correctAnswerIndex = checkAnswerIndex(raw.correctAnswerIndex, options, `${path}.correctAnswerIndex`, repairs, errors);
+      value = { type, ...base, options, correctAnswerIndex };
+      break;
+    }
+    case "true-false":
+      value = { type, ...base, answer: checkBoolean(raw.answer, `${path}.answer`, repairs, errors) };
+      break;
+    case "fill-in":
+      value = {
+        type,
+        ...base,
+        acceptedAnswers: checkTextList(raw.acceptedAnswers, `${path}.acceptedAnswers`, { min: 1, max: 10 }, repairs, errors),
+      };
+      break;
+    case "ordering":
+      value = { type, ...base, items: checkTextList(raw.items, `${path}.items`, ORDERING_ITEM_RANGE, repairs, errors) };
+      break;
+    case "matching":
+      value = { type, ...base, pairs: checkPairs(raw.pairs, `${path}.pairs`, errors) };
+      break;
+  }
+
+  return { value: errors.length ? null : value, repairs, errors };
+};
+
+// Models give boxes as [ymin, xmin, ymax, xmax] on a 0-1000 scale
+const BOX_SCALE = 1000;
+
+const isBoxArray = (box: unknown): box is number[] =>
+  Array.isArray(box) && box.length === 4 && box.every((n) => typeof n === "number" && Number.isFinite(n));
+
+// Converts a [ymin, xmin, ymax, xmax] box on the 0-1000 scale to fractions of
+// the image, swapping reversed corners; null (and a repair) when it is empty
+const checkBox = (box: number[], path: string, text: string, repairs: ValidationIssue[]): BoundingBox | null => {
+  const clamp = (n: number) => Math.min(BOX_SCALE, Math.max(0, n)) / BOX_SCALE;
+  const [y1, x1, y2, x2] = box.map(clamp);
+  const [top, bottom, left, right] = [Math.min(y1, y2), Math.max(y1, y2), Math.min(x1, x2), Math.max(x1, x2)];
+  if (bottom - top <= 0 || right - left <= 0) {
+    repairs.push({ path, message: `dropped empty box for "${text}"` });
+    return null;
+  }
+  if (y1 > y2 || x1 > x2) repairs.push({ path, message: "swapped reversed corners" });
+  const round = (n: number) => Math.round(n * 10_000) / 10_000;
+  return { x: round(left), y: round(top), width: round(right - left), height: round(bottom - top) };
+};
+
+/**
+ * Checks a list of `{ [textField]: string, box: [...] }` regions (hotspots
+ * or printed labels), converting each box to fractions of the image. Boxes
+ * are a nice-to-have, so a bad one is dropped (and reported as a repair)
+ * rather than failing the analysis.
+ */
+const checkRegions = <K extends string>(
+  raw: unknown,
+  path: string,
+  textField: K,
+  repairs: ValidationIssue[]
+): ({ [key in K]: string } & { box: BoundingBox })[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    repairs.push({ path, message: `dropped ${describe(raw)}, expected a list` });
+    return [];
+  }
+
+  const regions: ({ [key in K]: string } & { box: BoundingBox })[] = [];
+  raw.forEach((item, i) => {
+    const text = isRecord(item) && typeof item[textField] === "string" ? (item[textField] as string).trim() : "";
+    const box = isRecord(item) ? item.box : undefined;
+    if (!text || !isBoxArray(box)) {
+      repairs.push({ path: `${path}[${i}]`, message: `dropped entry without a ${textField} and a [ymin, xmin, ymax, xmax] box` });
+      return;
+    }
+
+    const checked = checkBox(box, `${path}[${i}].box`, text, repairs);
+    if (checked) regions.push({ [textField]: text, box: checked } as { [key in K]: string } & { box: BoundingBox });
+  });
+  return regions;
+};
+
+export const checkHotspots = (raw: unknown, path: string, repairs: ValidationIssue[]): Hotspot[] =>
+  checkRegions(raw, path, "term", repairs);
+
+/**
+ * Checks the relationship steps. A step needs a description; a missing
+ * source or target is left empty and a bad box dropped, since the step still
+ * reads fine without them. Older output with one `relationshipDescription`
+ * becomes a single step.
+ */
+export const checkRelationships = (
+  raw: Record<string, unknown>,
+  path: string,
+  repairs: ValidationIssue[],
+  errors: ValidationIssue[]
+): RelationshipStep[] => {
+  const value = raw[path];
+  if (!Array.isArray(value)) {
+    if (typeof raw.relationshipDescription === "string" && raw.relationshipDescription.trim()) {
+      repairs.push({ path, message: "turned a single relationshipDescription into one step" });
+      return [{ source: "", target: "", description: raw.relationshipDescription.trim() }];
+    }
+    errors.push({ path, message: `expected a list of steps, got ${describe(value)}` });
+    return [];
+  }
+
+  const steps = value.flatMap((item, i): RelationshipStep[] => {
+    const text = (field: string) => (isRecord(item) && typeof item[field] === "string" ? (item[field] as string).trim() : "");
+    const description = text("description");
+    if (!description) {
+      repairs.push({ path: `${path}[${i}]`, message: "dropped a step without a description" });
+      return [];
+    }
+    const step: RelationshipStep = { source: text("source"), target: text("target"), description };
+    const box = isRecord(item) ? item.box : undefined;
+    if (isBoxArray(box)) {
+      const checked = checkBox(box, `${path}[${i}].box`, `${step.source} -> ${step.target}`, repairs);
+      if (checked) step.box = checked;
+    } else if (box !== undefined && box !== null) {
+      repairs.push({ path: `${path}[${i}].box`, message: `dropped ${describe(box)}, expected [ymin, xmin, ymax, xmax]` });
+    }
+    return [step];
+  });
+  if (steps.length === 0) errors.push({ path, message: "no usable steps" });
+  return steps;
+};
+
+export const checkLabels = (raw: unknown, path: string, repairs: ValidationIssue[]): DiagramLabel[] =>
+  checkRegions(raw, path, "text", repairs);
+
+/** Checks a quiz array, or a `{ quiz: [...] }` wrapper as returned by quiz generation. */
+export const checkQuiz = (raw: unknown, path = "quiz"): QuizCheckResult => {
+  const items = isRecord(raw) && "quiz" in raw ? raw.quiz : raw;
+  const result: QuizCheckResult = { questions: [], invalid: [], repairs: [] };
+
+  if (!Array.isArray(items)) {
+    result.invalid.push({ raw: items, errors: [{ path, message: `expected a list of questions, got ${describe(items)}` }] });
+    return result;
+  }
+
+  items.forEach((item, i) => {
+    const checked = checkQuizQuestion(item, `${path}[${i}]`);
+    result.repairs.push(...checked.repairs);
+    if (checked.value) {
+      result.questions.push(checked.value);
+    } else {
+      result.invalid.push({ raw: item, errors: checked.errors });
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Named entries such as key terms: entries without a name or description are
+ * dropped, as are repeats of an earlier name, since the rest stay useful.
+ */
+const checkEntries = <K extends string, V extends string>(
+  value: unknown,
+  path: string,
+  nameField: K,
+  textField: V,
+  repairs: ValidationIssue[]
+): Record<K | V, string>[] => {
+  if (!Array.isArray(value)) {
+    if (value !== undefined && value !== null) repairs.push({ path, message: `expected a list, got ${describe(value)}; left empty` });
+    return [];
+  }
+  const seen = new Set<string>();
+  return value.flatMap((entry, i) => {
+    const name = isRecord(entry) && typeof entry[nameField] === "string" ? entry[nameField].trim() : "";
+    const text = isRecord(entry) && typeof entry[textField] === "string" ? entry[textField].trim() : "";
+    if (!name || !text || seen.has(name.toLowerCase())) {
+      repairs.push({ path: `${path}[${i}]`, message: !name || !text ? `dropped an entry without a ${nameField} and ${textField}` : `dropped repeated "${name}"` });
+      return [];
+    }
+    seen.add(name.toLowerCase());
+    return [{ [nameField]: name, [textField]: text } as Record<K | V, string>];
+  });
+};
+
+const checkExplanation = (
+  value: unknown,
+  path: string,
+  repairs: ValidationIssue[],
+  errors: ValidationIssue[]
+): StructuredExplanation | null => {
+  // Older prompts, and some models ignoring the schema, return one Markdown document
+  if (typeof value === "string" && value.trim()) {
+    repairs.push({ path, message: "split a single Markdown explanation into sections" });
+    return fromLegacyMarkdown(value);
+  }
+  if (!isRecord(value)) {
+    errors.push({ path, message: `expected the explanation's sections, got ${describe(value)}` });
+    return null;
+  }
+
+  const explanation: StructuredExplanation = {
+    mainPurpose: checkText(value.mainPurpose, `${path}.mainPurpose`, errors),
+    keyTerms: checkEntries(value.keyTerms, `${path}.keyTerms`, "term", "definition", repairs),
+    components: checkEntries(value.components, `${path}.components`, "name", "role", repairs),
+    howItWorks: checkText(value.howItWorks, `${path}.howItWorks`, errors),
+    summary: checkText(value.summary, `${path}.summary`, errors),
+  };
+  const isEmpty = !explanation.mainPurpose && !explanation.howItWorks && explanation.keyTerms.length === 0;
+  return isEmpty ? null : explanation;
+};
+
+// Lines rewritten entries up with the originals by name: renamed entries are
+// dropped and missing ones keep their old wording, so every name survives.
+const matchRewrittenEntries = <K extends string, V extends string>(
+  rewritten: Record<K | V, string>[],
+  original: Record<K | V, string>[],
+  path: string,
+  nameField: K,
+  repairs: ValidationIssue[]
+): { entries: Record<K | V, string>[]; matched: number } => {
+  const byName = new Map(rewritten.map((entry) => [entry[nameField].toLowerCase(), entry]));
+  const known = new Set(original.map((entry) => entry[nameField].toLowerCase()));
+  rewritten.forEach((entry, i) => {
+    if (!known.has(entry[nameField].toLowerCase())) {
+      repairs.push({ path: `${path}[${i}]`, message: `dropped "${entry[nameField]}", which is not in the original` });
+    }
+  });
+
+  let matched = 0;
+  const entries = original.map((entry) => {
+    const replacement = byName.get(entry[nameField].toLowerCase());
+    if (!replacement) {
+      repairs.push({ path, message: `"${entry[nameField]}" was left out; kept its original wording` });
+      return entry;
+    }
+    matched++;
+    return { ...replacement, [nameField]: entry[nameField] };
+  });
+  return { entries, matched };
+};
+
+/**
+ * Checks one rewritten explanation section against the version it replaces.
+ * Key terms and components must keep their names, which hotspots and quiz
+ * concepts refer to. Throws ModelOutputError when nothing usable came back.
+ */
+export const checkSectionRewrite = <S extends ExplanationSection>(
+  raw: unknown,
+  section: S,
+  original: StructuredExplanation
+): CheckResult<StructuredExplanation[S]> => {
+  const repairs: ValidationIssue[] = [];
+  const errors: ValidationIssue[] = [];
+  const value = isRecord(raw) ? raw[section] : undefined;
+
+  let checked: StructuredExplanation[ExplanationSection];
+  if (section === "keyTerms") {
+    const { entries, matched } = matchRewrittenEntries(
+      checkEntries(value, section, "term", "definition", repairs), original.keyTerms, section, "term", repairs
+    );
+    if (matched === 0) errors.push({ path: section, message: "none of the original key terms were rewritten" });
+    checked = entries;
+  } else if (section === "components") {
+    const { entries, matched } = matchRewrittenEntries(
+      checkEntries(value, section, "name", "role", repairs), original.components, section, "name", repairs
+    );
+    if (matched === 0) errors.push({ path: section, message: "none of the original components were rewritten" });
+    checked = entries;
+  } else {
+    checked = checkText(value, section, errors);
+  }
+
+  if (errors.length > 0) {
+    throw new ModelOutputError("The model returned an unusable rewrite.", errors);
+  }
+  return { value: checked as StructuredExplanation[S], repairs, errors };
+};
+
+/**
+ * Checks a full analysis. Throws NotADiagramError when the model flagged the
+ * image as unsuitable, and ModelOutputError when there is nothing worth
+ * showing (no explanation); quiz problems are left for the caller.
+ */
+export const checkAnalysis = (raw: unknown): AnalysisCheckResult => {
+  if (!isRecord(raw)) {
+    throw new ModelOutputError("The model returned something other than an analysis.", [
+      { path: "", message: `expected an object, got ${describe(raw)}` },
+    ]);
+  }
+
+  if (raw.isDiagram === false) {
+    throw new NotADiagramError(typeof raw.notDiagramReason === "string" ? raw.notDiagramReason.trim() : "");
+  }
+
+  const repairs: ValidationIssue[] = [];
+  const errors: ValidationIssue[] = [];
+
+  const explanation = checkExplanation(raw.explanation, "explanation", repairs, errors);
+  if (!explanation) {
+    throw new ModelOutputError("The model returned an analysis without an explanation.", errors);
+  }
+
+  let title = typeof raw.title === "string" ? raw.title.trim() : "";
+  if (!title) {
+    // Fall back to the first Markdown header of a one-document explanation, which is usually the subject
+    title = (typeof raw.explanation === "string" && raw.explanation.match(/^#{1,3}\s+(.+)$/m)?.[1].trim()) || "Diagram Analysis";
+    repairs.push({ path: "title", message: `missing, used "${title}"` });
+  }
+
+  const relationships = checkRelationships(raw, "relationships", repairs, errors);
+  const hotspots = checkHotspots(raw.hotspots, "hotspots", repairs);
+  const labels = checkLabels(raw.labels, "labels", repairs);
+  const quiz = checkQuiz(raw.quiz);
+
+  return {
+    value: { title, explanation, relationships, hotspots, labels, quiz: quiz.questions },
+    invalidQuestions: quiz.invalid,
+    repairs: [...repairs, ...quiz.repairs],
+    errors,
+  };
+};
+
+/** A readable list of problems, used in re-ask prompts and logs. */
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map((issue) => `- ${issue.path ? `${issue.path}: ` : ""}${issue.message}`).join("\n");
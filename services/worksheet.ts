@@ -0,0 +1,282 @@
+// Printable worksheets for classroom use: the diagram, a key-term fill-in
+// list and the quiz with space to answer, optionally in two shuffled forms
+// so neighbours can't copy, each followed by an answer key.
+
+import { AnalysisResult, DiagramLabel, KeyTerm, QuizQuestion } from "../types";
+import { describeCorrectAnswer, shuffledIndices } from "./questionTypes";
+import { drawMaskedImage, loadImage } from "./imageUtils";
+import { markdownToPlainText } from "./markdown";
+import { ExportFile, slugify } from "./quizExport";
+
+export interface WorksheetOptions {
+  forms: 1 | 2; // Form A only, or A and B with questions and choices shuffled
+  hideLabels: boolean; // Mask the diagram's labels and number them for students to fill in
+  answerKey: boolean;
+}
+
+export const DEFAULT_WORKSHEET_OPTIONS: WorksheetOptions = { forms: 1, hideLabels: false, answerKey: true };
+
+// A question laid out for paper. Exactly one of the answer formats is set,
+// except fill-in questions with the blank in the prompt, which need none.
+export interface WorksheetItem {
+  prompt: string;
+  choices?: string[]; // Circle one
+  steps?: string[]; // Number in order
+  matching?: { terms: string[]; definitions: string[] }; // Write the letter of the definition
+  answerLine: boolean;
+  answer: string;
+  explanation: string;
+}
+
+export interface WorksheetForm {
+  name: string | null; // "Form A", or null when only one form is printed
+  items: WorksheetItem[];
+  keyTerms: KeyTerm[]; // Definitions with the term itself blanked out
+  wordBank: string[]; // The key terms, alphabetically
+  labels: string[]; // Masked label texts, by the number drawn on the diagram
+}
+
+export const BLANK = "__________";
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** The explanation's key terms with each term blanked out of its own definition. */
+export const worksheetKeyTerms = (keyTerms: KeyTerm[]): KeyTerm[] =>
+  keyTerms.map((keyTerm) => {
+    const term = markdownToPlainText(keyTerm.term);
+    const definition = markdownToPlainText(keyTerm.definition).replace(new RegExp(`\\b${escapeRegExp(term)}\\b`, "gi"), BLANK);
+    return { term, definition };
+  });
+
+// Form A keeps the order the quiz was written in; later forms shuffle with
+// a seed per worksheet so reprinting gives the same Form B.
+const arrange = <T>(list: T[], seed: string | null): T[] =>
+  seed ? shuffledIndices(list.length, seed).map((i) => list[i]) : list;
+
+const worksheetItem = (question: QuizQuestion, seed: string | null): WorksheetItem => {
+  const base = { prompt: question.question, answerLine: false, explanation: markdownToPlainText(question.explanation) };
+  switch (question.type) {
+    case "multiple-choice": {
+      const order = seed ? shuffledIndices(question.options.length, seed) : question.options.map((_, i) => i);
+      const correct = order.indexOf(question.correctAnswerIndex);
+      return {
+        ...base,
+        choices: order.map((i) => question.options[i]),
+        answer: `${letter(correct)}. ${question.options[question.correctAnswerIndex]}`,
+      };
+    }
+    case "true-false":
+      return { ...base, prompt: `True or false: ${question.question}`, choices: ["True", "False"], answer: describeCorrectAnswer(question) };
+    case "fill-in": {
+      const hasBlank = /_{2,}/.test(question.question);
+      return {
+        ...base,
+        prompt: hasBlank ? question.question.replace(/_{2,}/g, BLANK) : question.question,
+        answerLine: !hasBlank,
+        answer: describeCorrectAnswer(question),
+      };
+    }
+    case "ordering":
+      // Steps are always shown shuffled, as on screen, or the paper gives the answer away
+      return {
+        ...base,
+        steps: shuffledIndices(question.items.length, seed ?? question.question).map((i) => question.items[i]),
+        answer: describeCorrectAnswer(question),
+      };
+    case "matching": {
+      const pairs = arrange(question.pairs, seed);
+      const order = shuffledIndices(pairs.length, seed ?? question.question);
+      return {
+        ...base,
+        matching: { terms: pairs.map((pair) => pair.term), definitions: order.map((i) => pairs[i].definition) },
+        answer: pairs.map((pair, i) => `${i + 1}. ${pair.term} = ${letter(order.indexOf(i))}`).join("; "),
+      };
+    }
+  }
+};
+
+/** The forms to print, with questions, choices and key terms reordered on every form after A. */
+export const buildWorksheetForms = (result: AnalysisResult, options: WorksheetOptions): WorksheetForm[] => {
+  const keyTerms = worksheetKeyTerms(result.explanation.keyTerms);
+  const labels = options.hideLabels ? (result.labels ?? []).map((label) => label.text) : [];
+
+  return Array.from({ length: options.forms }, (_, form) => {
+    const seed = form === 0 ? null : `${result.title}:${letter(form)}`;
+    return {
+      name: options.forms > 1 ? `Form ${letter(form)}` : null,
+      items: arrange(result.quiz, seed).map((question, i) => worksheetItem(question, seed && `${seed}:${i}`)),
+      keyTerms: arrange(keyTerms, seed),
+      wordBank: keyTerms.map((keyTerm) => keyTerm.term).sort((a, b) => a.localeCompare(b)),
+      labels,
+    };
+  });
+};
+
+/** The diagram with its labels masked and numbered for students to fill in, as a JPEG data URL. */
+export const numberedDiagram = async (image: string, labels: DiagramLabel[]): Promise<string> => {
+  const source = await loadImage(image);
+  const canvas = document.createElement("canvas");
+  drawMaskedImage(canvas, source, labels.map((label) => label.box));
+  const context = canvas.getContext("2d");
+  if (!context) return image;
+
+  const radius = Math.max(10, Math.round(Math.max(canvas.width, canvas.height) * 0.014));
+  context.font = `bold ${Math.round(radius * 1.2)}px sans-serif`;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.lineWidth = Math.max(1, radius / 6);
+  labels.forEach((label, i) => {
+    const x = (label.box.x + label.box.width / 2) * canvas.width;
+    const y = (label.box.y + label.box.height / 2) * canvas.height;
+    context.beginPath();
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    context.fillStyle = "#ffffff";
+    context.fill();
+    context.strokeStyle = "#000000";
+    context.stroke();
+    context.fillStyle = "#000000";
+    context.fillText(String(i + 1), x, y);
+  });
+  return canvas.toDataURL("image/jpeg", 0.92);
+};
+
+/**
+ * Whether the worksheet's text fits the PDF's built-in fonts, which only
+ * cover Western European scripts. Other languages print fine from the
+ * browser, so the dialog points there instead.
+ */
+export const fitsPdfFonts = (result: AnalysisResult): boolean =>
+  !/[^\x00-\xff–—‘’“”•…]/.test(JSON.stringify(result));
+
+// Letter size in points, with 0.6 inch margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 43;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+/** The worksheet as a PDF: each form's pages, then its answer key on a new page. */
+export const renderWorksheetPdf = async (
+  title: string,
+  forms: WorksheetForm[],
+  diagram: string,
+  options: WorksheetOptions
+): Promise<ExportFile> => {
+  const { jsPDF } = await import("jspdf");
+  const pdf = new jsPDF({ unit: "pt", format: "letter" });
+  const picture = await loadImage(diagram);
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const write = (text: string, { size = 11, bold = false, indent = 0, gap = 4 } = {}) => {
+    pdf.setFont("helvetica", bold ? "bold" : "normal");
+    pdf.setFontSize(size);
+    const lines: string[] = pdf.splitTextToSize(text, CONTENT_WIDTH - indent);
+    const lineHeight = size * 1.3;
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      pdf.text(line, MARGIN + indent, y + size);
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  const answerLine = (indent = 0, label = "") => {
+    ensureSpace(24);
+    y += 18;
+    if (label) {
+      pdf.setFont("helvetica", "normal");
+      pdf.setFontSize(11);
+      pdf.text(label, MARGIN + indent, y - 2);
+    }
+    const start = MARGIN + indent + (label ? pdf.getTextWidth(label) + 6 : 0);
+    pdf.line(start, y, MARGIN + CONTENT_WIDTH, y);
+    y += 8;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 8;
+    write(text, { size: 13, bold: true, gap: 6 });
+  };
+
+  forms.forEach((form, formIndex) => {
+    if (formIndex > 0) pdf.addPage();
+    y = MARGIN;
+    write(form.name ? `${title} (${form.name})` : title, { size: 18, bold: true, gap: 10 });
+    answerLine(0, "Name:");
+
+    // The diagram gets up to half a page
+    const scale = Math.min(CONTENT_WIDTH / picture.naturalWidth, (PAGE_HEIGHT / 2) / picture.naturalHeight);
+    const width = picture.naturalWidth * scale;
+    const height = picture.naturalHeight * scale;
+    ensureSpace(height);
+    pdf.addImage(picture, "JPEG", MARGIN + (CONTENT_WIDTH - width) / 2, y, width, height);
+    y += height + 12;
+
+    if (form.labels.length > 0) {
+      heading("Label the diagram");
+      form.labels.forEach((_, i) => answerLine(0, `${i + 1}.`));
+    }
+
+    if (form.keyTerms.length > 0) {
+      heading("Key terms");
+      write(`Word bank: ${form.wordBank.join(" • ")}`, { size: 10, gap: 6 });
+      form.keyTerms.forEach((keyTerm, i) => {
+        answerLine(0, `${i + 1}.`);
+        write(keyTerm.definition, { size: 10, indent: 18 });
+      });
+    }
+
+    if (form.items.length > 0) {
+      heading("Questions");
+      form.items.forEach((item, i) => {
+        ensureSpace(60);
+        write(`${i + 1}. ${item.prompt}`, { gap: 6 });
+        item.choices?.forEach((choice, c) => write(`${letter(c)}.  ${choice}`, { indent: 18, gap: 2 }));
+        item.steps?.forEach((step) => {
+          ensureSpace(16);
+          pdf.rect(MARGIN + 18, y + 1, 14, 12);
+          write(step, { indent: 40, gap: 4 });
+        });
+        if (item.matching) {
+          item.matching.terms.forEach((term, t) => write(`____  ${t + 1}. ${term}`, { indent: 18, gap: 2 }));
+          y += 4;
+          item.matching.definitions.forEach((definition, d) => write(`${letter(d)}.  ${definition}`, { size: 10, indent: 18, gap: 2 }));
+        }
+        if (item.answerLine) answerLine(18);
+        y += 8;
+      });
+    }
+
+    if (options.answerKey) {
+      pdf.addPage();
+      y = MARGIN;
+      write(`Answer key: ${form.name ? `${title} (${form.name})` : title}`, { size: 16, bold: true, gap: 10 });
+      if (form.labels.length > 0) {
+        heading("Diagram labels");
+        form.labels.forEach((label, i) => write(`${i + 1}. ${label}`, { gap: 2 }));
+      }
+      if (form.keyTerms.length > 0) {
+        heading("Key terms");
+        form.keyTerms.forEach((keyTerm, i) => write(`${i + 1}. ${keyTerm.term}`, { gap: 2 }));
+      }
+      if (form.items.length > 0) {
+        heading("Questions");
+        form.items.forEach((item, i) => {
+          write(`${i + 1}. ${item.answer}`, { bold: true, gap: 2 });
+          write(item.explanation, { size: 10, indent: 18, gap: 8 });
+        });
+      }
+    }
+  });
+
+  return { blob: pdf.output("blob"), filename: `${slugify(title)}-worksheet.pdf`, skipped: 0 };
+};
@@ -1,18 +1,268 @@
-export interface QuizQuestion {
+// How a quiz question is answered (see services/questionTypes.ts)
+export type QuestionType = 'multiple-choice' | 'true-false' | 'fill-in' | 'ordering' | 'matching';
+
+interface QuizQuestionBase {
   question: string;
+  explanation: string; // Brief explanation of why the answer is correct
+  difficulty?: QuestionDifficulty; // Unset on questions saved before tagging
+  concept?: string; // The key term or component the question tests
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple-choice';
   options: string[];
   correctAnswerIndex: number; // 0-based index
-  explanation: string; // Brief explanation of why the answer is correct
 }
 
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true-false';
+  answer: boolean; // Whether the statement in `question` is true
+}
+
+export interface FillInQuestion extends QuizQuestionBase {
+  type: 'fill-in';
+  acceptedAnswers: string[]; // Any of these fills the ___ in `question`; compared ignoring case and punctuation
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  items: string[]; // In the correct order; shown shuffled
+}
+
+export interface MatchingPair {
+  term: string;
+  definition: string;
+}
+
+export interface MatchingQuestion extends QuizQuestionBase {
+  type: 'matching';
+  pairs: MatchingPair[]; // Definitions are shown shuffled
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | FillInQuestion
+  | OrderingQuestion
+  | MatchingQuestion;
+
+// A student's answer, shaped by the question type: the option index for
+// multiple choice, a boolean for true/false, the typed text for fill-in, the
+// item indices in the order placed for ordering, and for matching the index
+// of the pair whose definition was picked for each term.
+export type QuizAnswer = number | boolean | string | number[];
+
+// Bloom-style levels: remembering a fact, using it in a new situation, reasoning about relationships
+export type QuestionDifficulty = 'recall' | 'application' | 'analysis';
+
+// What "Generate New Questions" asks for (see services/quizSettings.ts)
+export interface QuizSettings {
+  count: number;
+  difficulty: QuestionDifficulty | 'mixed';
+  focusTopics: string[]; // Key terms or components to concentrate on; empty for the whole diagram
+}
+
+// A term labeled on the diagram, defined in one sentence
+export interface KeyTerm {
+  term: string;
+  definition: string;
+}
+
+// A part shown in the diagram and what it does there
+export interface DiagramComponent {
+  name: string;
+  role: string;
+}
+
+// The explanation in the sections the student reads it in (see services/explanation.ts).
+// The prose sections are Markdown; terms and components are data so the
+// glossary, worksheets and quiz topics can use them directly.
+export interface StructuredExplanation {
+  mainPurpose: string;
+  keyTerms: KeyTerm[];
+  components: DiagramComponent[];
+  howItWorks: string;
+  summary: string;
+}
+
+export type ExplanationSection = keyof StructuredExplanation;
+
+// How a section is reworded on request (see services/explanation.ts)
+export type RewriteStyle = 'simpler' | 'deeper' | 'example';
+
+// One wording of an explanation section; the first is the one the analysis wrote
+export interface SectionVersion<K extends ExplanationSection = ExplanationSection> {
+  style: RewriteStyle | null; // null for the original
+  value: StructuredExplanation[K];
+  createdAt: number; // Epoch milliseconds
+}
+
+// Every wording of the sections the student has had rewritten, and which one is shown
+export type ExplanationHistory = {
+  [K in ExplanationSection]?: { versions: SectionVersion<K>[]; current: number };
+};
+
 export interface AnalysisResult {
   title: string;
-  explanation: string;
-  relationshipDescription: string; // Detailed description of a specific relationship/flow
+  explanation: StructuredExplanation;
+  relationships: RelationshipStep[]; // The diagram's processes or flows, in walkthrough order
+  hotspots?: Hotspot[]; // Where key terms and components are in the image; unset on analyses saved before hotspots
+  labels?: DiagramLabel[]; // Text printed on the image, for the label-the-diagram exercise; unset on older analyses
   quiz: QuizQuestion[];
+  validationIssues?: ValidationIssue[]; // Problems in the model output that could not be repaired
+  profile?: AudienceProfile; // Who the analysis was written for; unset for analyses saved before profiles existed
+}
+
+// A region of the image as fractions (0-1) of its width and height, measured from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A key term or component and where it appears in the diagram (see services/hotspots.ts)
+export interface Hotspot {
+  term: string; // As bolded in the explanation
+  box: BoundingBox;
+}
+
+// One step of a process or flow shown in the diagram, e.g. "Ocean -> Clouds: evaporation"
+export interface RelationshipStep {
+  source: string; // Where it starts, named as in the key terms or components; empty for analyses saved before steps
+  target: string; // Where it leads
+  description: string;
+  box?: BoundingBox; // Where it happens in the image, e.g. around its arrow; unset when the model gave none
+}
+
+// A text label printed on the diagram and where it is
+export interface DiagramLabel {
+  text: string; // Exactly as printed
+  box: BoundingBox; // Around the text itself, so masking it hides the label
+}
+
+// Corrections applied to an upload before analysis (see services/imageUtils.ts)
+export interface ImageEdits {
+  rotation: 0 | 90 | 180 | 270; // Clockwise quarter turns
+  straighten: number; // Further clockwise degrees, small, for tilted photos
+  crop: BoundingBox | null; // Of the rotated and straightened image
+  enhance: boolean; // Stretch contrast, e.g. for washed-out photos of a page
+}
+
+// How uploads are scaled and compressed before they are sent; remembered on this device
+export interface ImageOutputSettings {
+  maxSide: number; // Longest side in pixels
+  quality: number; // JPEG quality, 0-1
+}
+
+export type GradeBand = 'elementary' | 'middle-school' | 'high-school' | 'university';
+
+// Who explanations, quizzes and tutor replies are written for (see services/audienceProfile.ts)
+export interface AudienceProfile {
+  gradeBand: GradeBand;
+  language: string; // English name of the output language, e.g. "Spanish"
+  keyTermCount: number;
+  tone: 'concise' | 'detailed';
+}
+
+// One problem found while checking model output, e.g. { path: "quiz[1].correctAnswerIndex", message: "..." }
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface QuizRequest {
+  count: number;
+  instructions?: string; // Extra guidance appended to the prompt
+  profile: AudienceProfile;
+  difficulty?: QuizSettings['difficulty'];
+  focusTopics?: string[];
+  exclude?: string[]; // Questions the student already has, which must not come back reworded
+}
+
+// An explanation that is still streaming in: list entries may be missing fields too
+export type PartialExplanation = {
+  [K in keyof StructuredExplanation]?: StructuredExplanation[K] extends (infer Entry)[] ? Partial<Entry>[] : StructuredExplanation[K];
+};
+
+// An analysis that is still streaming in. Fields arrive in the order declared
+// above, and the last string present may be cut off mid-sentence.
+export type PartialAnalysis = Omit<Partial<AnalysisResult>, 'explanation' | 'relationships'> & {
+  explanation?: PartialExplanation;
+  relationships?: Partial<RelationshipStep>[];
+};
+
+// An analysis as delivered by the API server; cachedAt is set when it came from the server's cache
+export interface AnalysisResponse {
+  result: AnalysisResult;
+  cachedAt?: number;
 }
 
+// Categories of model failure, each with its own remedy on the error screen (see services/errors.ts)
+export type ModelErrorKind =
+  | 'api-key'
+  | 'quota'
+  | 'safety'
+  | 'network'
+  | 'unavailable'
+  | 'not-a-diagram'
+  | 'malformed-output'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
 export interface ProcessingState {
   status: 'idle' | 'analyzing' | 'complete' | 'error';
   error?: string;
-}
\ No newline at end of file
+  errorKind?: ModelErrorKind; // Unset for failures outside the model call, e.g. a non-image file
+}
+
+export interface ChatMessage {
+  id: string;
+  sender: 'user' | 'ai';
+  text: string;
+  isError?: boolean; // Placeholder shown when the tutor failed; never sent back to the model
+}
+
+// Everything the tutor needs to answer a follow-up in context.
+export interface TutorRequest {
+  question: string;
+  history: ChatMessage[]; // Earlier turns, oldest first, excluding `question`
+  analysis?: Pick<AnalysisResult, 'title' | 'explanation' | 'relationships'>;
+  currentQuestion?: QuizQuestion; // The quiz question on screen, if any
+  selectedAnswer?: QuizAnswer | null; // The student's answer to currentQuestion, null if unanswered
+  profile?: AudienceProfile; // The profile the analysis was written for, so replies match it
+}
+
+// Asks for one explanation section in other words, with the rest for context
+export interface SectionRewriteRequest {
+  section: ExplanationSection;
+  style: RewriteStyle;
+  title: string;
+  explanation: StructuredExplanation; // As the student currently sees it
+  profile: AudienceProfile; // The profile the analysis was written for
+}
+
+export interface QuizAttempt {
+  id: string;
+  quizIndex: number; // Index into LibraryEntry.quizzes
+  answers: (QuizAnswer | null)[];
+  score: number; // Sum of per-question credit, so may be fractional
+  total: number;
+  completedAt: number; // Epoch milliseconds
+}
+
+// A saved analysis in the local study library (IndexedDB).
+export interface LibraryEntry {
+  id: string;
+  title: string; // User-editable; starts as the model's title
+  image: string; // Data URL of the uploaded diagram
+  result: AnalysisResult; // result.quiz is always the most recent quiz
+  quizzes: QuizQuestion[][]; // Every quiz taken on this diagram, oldest first
+  bank: QuizQuestion[]; // Every distinct question generated for this diagram (see services/questionBank.ts)
+  attempts: QuizAttempt[];
+  chat: ChatMessage[]; // Tutor conversation about this diagram
+  explanationHistory: ExplanationHistory; // Rewritten sections; result.explanation shows the current versions
+  createdAt: number;
+  updatedAt: number;
+}